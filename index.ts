@@ -8,24 +8,60 @@
  */
 
 import type { ClawdbotPluginApi } from "clawdbot/plugin-sdk";
-import { emptyPluginConfigSchema } from "clawdbot/plugin-sdk";
 
-import { crispPlugin, createCrispHttpHandler } from "./src/channel.js";
+import { crispPlugin, createCrispHttpHandler, resolveCrispChannelSettings } from "./src/channel.js";
 import { setCrispRuntime } from "./src/runtime.js";
+import { crispCommands } from "./src/commands.js";
+import { createHandoffTool } from "./src/handoff.js";
+import { buildCrispConfigJsonSchema } from "./src/config-schema.js";
+import { log } from "./src/logger.js";
+import {
+  createFilePendingReplyStore,
+  createMemoryPendingReplyStore,
+  initPendingReplyStore,
+  resolvePendingRepliesPath,
+} from "./src/pending-replies.js";
 
 // Re-export types for consumers
 export * from "./src/types.js";
-export { createCrispClient } from "./src/api-client.js";
+export {
+  createCrispClient,
+  CrispApiError,
+  CrispAuthError,
+  CrispNotFoundError,
+  CrispRateLimitError,
+  CrispTimeoutError,
+  createCrispClientFromConfig,
+  describeCrispError,
+} from "./src/api-client.js";
+export {
+  buildCarouselMessage,
+  buildFieldMessage,
+  buildFileMessage,
+  buildPickerMessage,
+  extractRichMessages,
+} from "./src/rich-messages.js";
 export { 
   getPendingReply, 
   removePendingReply, 
   sendCrispReply,
 } from "./src/monitor.js";
 export { 
+  createFilePendingReplyStore,
+  createMemoryPendingReplyStore,
   findPendingReplyByTelegramMessage,
   getAllPendingReplies,
+  initPendingReplyStore,
 } from "./src/pending-replies.js";
-export type { PendingReply } from "./src/pending-replies.js";
+export type { PendingReply, PendingReplyStore } from "./src/pending-replies.js";
+export {
+  getTakeoverState,
+  listTakeovers,
+  pauseSession,
+  resumeSession,
+} from "./src/takeover.js";
+export type { TakeoverState } from "./src/takeover.js";
+export { performHandoff } from "./src/handoff.js";
 
 /**
  * Plugin definition for Clawdbot
@@ -34,7 +70,7 @@ const plugin = {
   id: "crisp",
   name: "Crisp",
   description: "Crisp website chat channel for Clawdbot",
-  configSchema: emptyPluginConfigSchema(),
+  configSchema: buildCrispConfigJsonSchema(),
 
   /**
    * Register the plugin with Clawdbot
@@ -43,9 +79,34 @@ const plugin = {
     // Set runtime for webhook handler
     setCrispRuntime(api.runtime);
 
+    // Restore approvals that were still pending before the last restart
+    // (one store shared by all accounts, configured at the channel level)
+    const settings = resolveCrispChannelSettings(api.config);
+    const store = settings.pendingStore === "memory"
+      ? createMemoryPendingReplyStore()
+      : createFilePendingReplyStore(
+          settings.pendingStorePath ??
+            resolvePendingRepliesPath(api.runtime.state.resolveStateDir())
+        );
+    const restored = initPendingReplyStore({
+      store,
+      ttlMs: settings.pendingReplyTtlMinutes * 60 * 1000,
+    });
+    if (restored.length > 0) {
+      log.info("Restored pending approvals", { count: restored.length });
+    }
+
     // Register the channel plugin
     api.registerChannel({ plugin: crispPlugin });
 
+    // Register pause/resume commands for operator takeover
+    for (const command of crispCommands) {
+      api.registerCommand(command);
+    }
+
+    // Let the agent escalate Crisp conversations to a human
+    api.registerTool(createHandoffTool, { name: "crisp_handoff" });
+
     // Register HTTP handler for webhooks
     const httpHandler = createCrispHttpHandler(api.config);
     api.registerHttpHandler(httpHandler);
@@ -0,0 +1,14 @@
+/**
+ * Write the config JSON Schema into the plugin manifest, so hosts that read
+ * clawdbot.plugin.json validate `channels.crisp` without loading the plugin.
+ * Run through `npm run manifest` (needs the compiled sources in dist/).
+ */
+
+import fs from "node:fs";
+import { buildCrispConfigJsonSchema } from "../dist/src/config-schema.js";
+
+const manifestUrl = new URL("../clawdbot.plugin.json", import.meta.url);
+const manifest = JSON.parse(fs.readFileSync(manifestUrl, "utf8"));
+
+manifest.configSchema = buildCrispConfigJsonSchema();
+fs.writeFileSync(manifestUrl, `${JSON.stringify(manifest, null, 2)}\n`);
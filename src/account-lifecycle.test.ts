@@ -0,0 +1,169 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  isAccountRunning,
+  startAccountRuntime,
+  stopAccountRuntime,
+  updateAccountRuntime,
+} from "./account-lifecycle.js";
+import { createFakeCrispServer, type FakeCrispServer } from "../test/fake-crisp-server.js";
+import { createFakeRuntime } from "../test/fake-runtime.js";
+import { handleCrispWebhookRequest, setCrispRuntime } from "./monitor.js";
+import { CRISP_API_BASE, CrispConfigSchema, type ResolvedCrispAccount } from "./types.js";
+
+const WEBHOOK_SECRET = "lifecycle-webhook-secret";
+
+const cleanups: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  while (cleanups.length > 0) await cleanups.pop()!();
+});
+
+/**
+ * Agent whose turns wait until the test lets them finish
+ */
+function createBlockingAgent() {
+  const started: string[] = [];
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const { runtime } = createFakeRuntime({
+    agent: async (turn) => {
+      started.push(turn.text);
+      await released;
+      return "Done";
+    },
+  });
+
+  return { runtime, started, release };
+}
+
+let nextAccount = 0;
+
+/**
+ * A Crisp account backed by a fake server, with its webhook handler served over HTTP
+ */
+async function setupAccount(): Promise<{ account: ResolvedCrispAccount; crisp: FakeCrispServer }> {
+  const accountId = `account_${++nextAccount}`;
+
+  const server = createServer(async (req, res) => {
+    await handleCrispWebhookRequest(req, res, account.config, {}, account.accountId);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  cleanups.push(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  const crisp = createFakeCrispServer({
+    webhookUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/crisp-webhook`,
+    webhookSecret: WEBHOOK_SECRET,
+  });
+  const apiBaseUrl = await crisp.listen();
+  cleanups.push(() => crisp.close());
+
+  const account: ResolvedCrispAccount = {
+    accountId,
+    name: accountId,
+    enabled: true,
+    configured: true,
+    config: CrispConfigSchema.parse({
+      websiteId: crisp.websiteId,
+      apiKeyId: "key",
+      apiKeySecret: "secret",
+      apiBaseUrl,
+      webhookSecret: WEBHOOK_SECRET,
+      autoReply: true,
+      typingIndicator: false,
+    }),
+    baseUrl: CRISP_API_BASE,
+    configIssues: [],
+    secretSources: {},
+  };
+  return { account, crisp };
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(check()).toBe(true);
+}
+
+describe("account lifecycle", () => {
+  it("waits for in-flight agent turns when stopping", async () => {
+    const agent = createBlockingAgent();
+    setCrispRuntime(agent.runtime);
+    const { account, crisp } = await setupAccount();
+    startAccountRuntime(account);
+
+    await crisp.sendVisitorMessage("session_drain", "Hello");
+    await waitFor(() => agent.started.length === 1);
+
+    const stopping = stopAccountRuntime(account.accountId, 5_000);
+    expect(isAccountRunning(account.accountId)).toBe(false);
+    setTimeout(agent.release, 20);
+
+    expect(await stopping).toEqual({ drained: true, pending: 0 });
+    expect(crisp.getMessages("session_drain").filter((m) => m.from === "operator")).toHaveLength(1);
+  });
+
+  it("gives up after the drain timeout and reports what is still running", async () => {
+    const agent = createBlockingAgent();
+    cleanups.push(agent.release);
+    setCrispRuntime(agent.runtime);
+    const { account, crisp } = await setupAccount();
+    startAccountRuntime(account);
+
+    await crisp.sendVisitorMessage("session_slow", "Hello");
+    await waitFor(() => agent.started.length === 1);
+
+    const startedAt = Date.now();
+    expect(await stopAccountRuntime(account.accountId, 50)).toEqual({ drained: false, pending: 1 });
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+  });
+
+  it("refuses webhooks and queues nothing once stopped", async () => {
+    const agent = createBlockingAgent();
+    agent.release();
+    setCrispRuntime(agent.runtime);
+    const { account, crisp } = await setupAccount();
+    startAccountRuntime(account);
+
+    await stopAccountRuntime(account.accountId);
+    const response = await crisp.sendVisitorMessage("session_late", "Anyone?");
+
+    expect(response.status).toBe(503);
+    expect(agent.started).toEqual([]);
+  });
+
+  it("is safe to stop twice and to stop an account that never started", async () => {
+    const { account } = await setupAccount();
+    startAccountRuntime(account);
+
+    const first = stopAccountRuntime(account.accountId);
+    expect(stopAccountRuntime(account.accountId)).toBe(first);
+    await first;
+    expect(await stopAccountRuntime("account_unknown")).toEqual({ drained: true, pending: 0 });
+  });
+
+  it("runs the poll loop until stopped and restarts it with a changed account", async () => {
+    const { account } = await setupAccount();
+    const loops: Array<{ account: ResolvedCrispAccount; signal: AbortSignal }> = [];
+    startAccountRuntime(account, { poll: (polled, signal) => void loops.push({ account: polled, signal }) });
+    expect(loops).toHaveLength(1);
+
+    const changed = { ...account, config: { ...account.config, debounceMs: 500 } };
+    updateAccountRuntime(changed);
+    expect(loops).toHaveLength(2);
+    expect(loops[0].signal.aborted).toBe(true);
+    expect(loops[1].account).toBe(changed);
+
+    await stopAccountRuntime(account.accountId);
+    expect(loops[1].signal.aborted).toBe(true);
+
+    // A stopped account is not restarted by a reload
+    updateAccountRuntime(changed);
+    expect(loops).toHaveLength(2);
+  });
+});
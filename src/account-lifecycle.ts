@@ -0,0 +1,167 @@
+/**
+ * Account Lifecycle
+ *
+ * Per-account work owned by the gateway: `startAccount` builds it and `stop`
+ * (or the gateway's abort signal) tears it down. Stopping first refuses new
+ * webhooks, then stops the background loops and waits, up to a timeout, for
+ * the webhooks already accepted and the agent turns they queued to finish
+ * before forgetting the account's sessions.
+ *
+ * API clients are not owned here: they are memoized per account config, so
+ * a reload that changes the credentials gets a new client on the next call.
+ */
+
+import { DEFAULT_DRAIN_TIMEOUT_MS, type ResolvedCrispAccount } from "./types.js";
+import {
+  clearAccountSessions,
+  drainInboundQueue,
+  getPendingInboundCount,
+  openInboundIntake,
+} from "./monitor.js";
+import { purgeExpiredPendingReplies } from "./pending-replies.js";
+import { log } from "./logger.js";
+
+// How often expired pending replies are dropped while an account runs
+const PENDING_REPLY_PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface AccountRuntime {
+  accountId: string;
+  startedAt: number;
+  /** Aborted when the account stops; background loops should follow it */
+  signal: AbortSignal;
+}
+
+export interface AccountRuntimeOptions {
+  /** Background loop run while the account runs; restarted with the new account on reload */
+  poll?: (account: ResolvedCrispAccount, signal: AbortSignal) => Promise<void> | void;
+}
+
+export interface AccountStopResult {
+  /** False when the drain timed out with agent turns still running */
+  drained: boolean;
+  pending: number;
+}
+
+interface RunningAccount extends AccountRuntime {
+  controller: AbortController;
+  options: AccountRuntimeOptions;
+  /** Aborts the current poll loop only (restarted on reload) */
+  polling: AbortController | null;
+  timers: ReturnType<typeof setInterval>[];
+  stopping: Promise<AccountStopResult> | null;
+}
+
+const running = new Map<string, RunningAccount>();
+
+/**
+ * Start an account's background work. An instance still running for the
+ * same account is replaced (and stopped in the background).
+ */
+export function startAccountRuntime(
+  account: ResolvedCrispAccount,
+  options: AccountRuntimeOptions = {}
+): AccountRuntime {
+  const previous = running.get(account.accountId);
+  if (previous) void stopAccountRuntime(account.accountId);
+
+  const controller = new AbortController();
+  const purge = setInterval(() => {
+    const removed = purgeExpiredPendingReplies();
+    if (removed > 0) log.debug("Dropped expired pending replies", { accountId: account.accountId, removed });
+  }, PENDING_REPLY_PURGE_INTERVAL_MS);
+  purge.unref?.();
+
+  const runtime: RunningAccount = {
+    accountId: account.accountId,
+    startedAt: Date.now(),
+    signal: controller.signal,
+    controller,
+    options,
+    polling: null,
+    timers: [purge],
+    stopping: null,
+  };
+  running.set(account.accountId, runtime);
+  openInboundIntake(account.accountId);
+  startPolling(runtime, account);
+  return runtime;
+}
+
+function startPolling(runtime: RunningAccount, account: ResolvedCrispAccount): void {
+  runtime.polling?.abort();
+  runtime.polling = null;
+  if (!runtime.options.poll) return;
+
+  const polling = new AbortController();
+  runtime.signal.addEventListener("abort", () => polling.abort(), { once: true });
+  runtime.polling = polling;
+  void Promise.resolve(runtime.options.poll(account, polling.signal)).catch((err) => {
+    log.error("Account background loop failed", { accountId: account.accountId, error: err });
+  });
+}
+
+/**
+ * Apply a changed config to a running account: its background loop is
+ * restarted, so new credentials take effect without a restart
+ */
+export function updateAccountRuntime(account: ResolvedCrispAccount): void {
+  const runtime = running.get(account.accountId);
+  if (!runtime || runtime.stopping) return;
+
+  startPolling(runtime, account);
+}
+
+/**
+ * Whether an account is started and not stopping
+ */
+export function isAccountRunning(accountId: string): boolean {
+  const runtime = running.get(accountId);
+  return Boolean(runtime && !runtime.stopping);
+}
+
+/**
+ * Stop an account: refuse new webhooks, stop its loops and timers, and wait
+ * up to `timeoutMs` for accepted webhooks and in-flight agent turns. Safe to call more than once.
+ */
+export function stopAccountRuntime(
+  accountId: string,
+  timeoutMs = DEFAULT_DRAIN_TIMEOUT_MS
+): Promise<AccountStopResult> {
+  const runtime = running.get(accountId);
+  if (!runtime) return Promise.resolve({ drained: true, pending: 0 });
+  if (runtime.stopping) return runtime.stopping;
+
+  runtime.stopping = (async () => {
+    runtime.controller.abort();
+    for (const timer of runtime.timers) clearInterval(timer);
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const drained = await Promise.race([
+      drainInboundQueue(accountId).then(
+        () => true,
+        (err) => {
+          log.error("Failed to drain inbound queue", { accountId, error: err });
+          return true;
+        }
+      ),
+      new Promise<boolean>((resolve) => {
+        timeout = setTimeout(() => resolve(false), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timeout);
+
+    const pending = getPendingInboundCount(accountId);
+    if (!drained) {
+      log.warn("Stopped before in-flight messages finished", { accountId, pending, timeoutMs });
+    }
+
+    // A restart may have installed a new instance in the meantime
+    if (running.get(accountId) === runtime) {
+      running.delete(accountId);
+      clearAccountSessions(accountId);
+    }
+    return { drained, pending };
+  })();
+
+  return runtime.stopping;
+}
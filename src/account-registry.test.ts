@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { applyAccountConfig, getAccountConfig, getConfigSnapshot } from "./account-registry.js";
+import { CRISP_API_BASE, CrispConfigSchema, type ResolvedCrispAccount } from "./types.js";
+
+function account(accountId: string, settings: Record<string, unknown> = {}): ResolvedCrispAccount {
+  return {
+    accountId,
+    name: accountId,
+    enabled: true,
+    configured: true,
+    config: CrispConfigSchema.parse({
+      websiteId: "11111111-1111-4111-8111-111111111111",
+      apiKeyId: "key",
+      apiKeySecret: "secret",
+      webhookSecret: "registry-webhook-secret",
+      webhookPath: `/crisp-${accountId}`,
+      ...settings,
+    }),
+    baseUrl: CRISP_API_BASE,
+    configIssues: [],
+    secretSources: {},
+  };
+}
+
+describe("applyAccountConfig", () => {
+  it("reports what a reload added, changed and removed", () => {
+    const first = applyAccountConfig({}, [account("main"), account("support"), account("sales")]);
+    expect(first.change).toEqual({ added: ["main", "support", "sales"], changed: [], removed: [] });
+
+    const second = applyAccountConfig({}, [account("main"), account("support", { autoReply: true }), account("billing")]);
+    expect(second.change).toEqual({ added: ["billing"], changed: ["support"], removed: ["sales"] });
+    expect(second.snapshot.version).toBe(first.snapshot.version + 1);
+
+    // Unchanged accounts keep their state, so their clients and caches survive
+    expect(second.snapshot.accounts.get("main")).toBe(first.snapshot.accounts.get("main"));
+    expect(getAccountConfig("support")?.autoReply).toBe(true);
+    expect(getAccountConfig("sales")).toBeNull();
+  });
+
+  it("keeps the version and routes when nothing changed", () => {
+    const first = applyAccountConfig({}, [account("main")]);
+    const second = applyAccountConfig({}, [account("main")]);
+
+    expect(second.change).toEqual({ added: [], changed: [], removed: [] });
+    expect(second.snapshot.version).toBe(first.snapshot.version);
+    expect(second.snapshot.routes).toBe(first.snapshot.routes);
+  });
+
+  it("leaves the snapshot a request already holds untouched", () => {
+    applyAccountConfig({}, [account("main")]);
+    const held = getConfigSnapshot()!;
+
+    applyAccountConfig({}, [account("main", { approvalMode: true })]);
+
+    expect(held.accounts.get("main")?.account.config.approvalMode).toBe(false);
+    expect(getConfigSnapshot()?.accounts.get("main")?.account.config.approvalMode).toBe(true);
+    expect(held.routes.crisp.get("/crisp-main")?.[0].config.approvalMode).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Account Registry
+ *
+ * Live view of the Crisp accounts, rebuilt on every config reload. A reload
+ * builds a new snapshot and swaps it in with one assignment, so a request
+ * sees either the old config or the new one, never a mix; requests already
+ * running keep the snapshot they started with. Accounts whose config did not
+ * change keep their state (and the API client and caches tied to it).
+ */
+
+import type { ClawdbotConfig } from "clawdbot/plugin-sdk";
+import type { CrispConfig, ResolvedCrispAccount } from "./types.js";
+import { buildWebhookRoutes, type WebhookRoutes } from "./webhook-router.js";
+
+export interface AccountState {
+  account: ResolvedCrispAccount;
+  /** Serialized account settings; a different key on reload means the account changed */
+  configKey: string;
+}
+
+export interface ConfigSnapshot {
+  /** Incremented on every reload that changed an account */
+  version: number;
+  cfg: ClawdbotConfig;
+  accounts: Map<string, AccountState>;
+  routes: WebhookRoutes;
+}
+
+export interface ConfigChange {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+let current: ConfigSnapshot | null = null;
+
+function configKeyOf(account: ResolvedCrispAccount): string {
+  const { accountId, name, enabled, configured, config, baseUrl } = account;
+  return JSON.stringify({ accountId, name, enabled, configured, config, baseUrl });
+}
+
+/**
+ * Whether a reload changed anything
+ */
+export function hasConfigChanges(change: ConfigChange): boolean {
+  return change.added.length + change.changed.length + change.removed.length > 0;
+}
+
+/**
+ * Install the accounts of a (re)loaded config.
+ * Unchanged accounts keep their previous state object.
+ */
+export function applyAccountConfig(
+  cfg: ClawdbotConfig,
+  accounts: ResolvedCrispAccount[]
+): { snapshot: ConfigSnapshot; previous: ConfigSnapshot | null; change: ConfigChange } {
+  const previous = current;
+  const change: ConfigChange = { added: [], changed: [], removed: [] };
+  const states = new Map<string, AccountState>();
+
+  for (const account of accounts) {
+    const configKey = configKeyOf(account);
+    const existing = previous?.accounts.get(account.accountId);
+
+    if (existing && existing.configKey === configKey) {
+      states.set(account.accountId, existing);
+      continue;
+    }
+
+    states.set(account.accountId, { account, configKey });
+    (existing ? change.changed : change.added).push(account.accountId);
+  }
+
+  for (const accountId of previous?.accounts.keys() ?? []) {
+    if (!states.has(accountId)) change.removed.push(accountId);
+  }
+
+  const changed = !previous || hasConfigChanges(change);
+  const snapshot: ConfigSnapshot = {
+    version: changed ? (previous?.version ?? 0) + 1 : previous.version,
+    cfg,
+    accounts: states,
+    // Order follows the config, so earlier accounts keep winning route conflicts
+    routes: changed
+      ? buildWebhookRoutes(Array.from(states.values(), (state) => state.account))
+      : previous.routes,
+  };
+
+  current = snapshot;
+  return { snapshot, previous, change };
+}
+
+/**
+ * The active snapshot (null until the first config is applied)
+ */
+export function getConfigSnapshot(): ConfigSnapshot | null {
+  return current;
+}
+
+/**
+ * Current config of a configured account
+ */
+export function getAccountConfig(accountId: string): CrispConfig | null {
+  const state = current?.accounts.get(accountId);
+  return state?.account.configured ? state.account.config : null;
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  createCrispClient,
+  CrispApiError,
+  CrispAuthError,
+  CrispNotFoundError,
+  CrispRateLimitError,
+  parseRetryAfter,
+  type CrispApiClientOptions,
+} from "./api-client.js";
+import { createFakeCrispServer, type FakeCrispServer } from "../test/fake-crisp-server.js";
+
+function setup(overrides: Partial<CrispApiClientOptions> = {}) {
+  const crisp = createFakeCrispServer();
+  const { session_id: sessionId } = crisp.createConversation();
+  const client = createCrispClient({
+    // The rate limit budget is shared per API key
+    apiKeyId: `key_${randomUUID()}`,
+    apiKeySecret: "secret",
+    baseUrl: crisp.baseUrl,
+    fetch: crisp.fetch,
+    retry: { baseDelayMs: 1, maxDelayMs: 1_000 },
+    ...overrides,
+  });
+  return { crisp, client, sessionId };
+}
+
+function callsTo(crisp: FakeCrispServer, method: string, suffix: string): number {
+  return crisp.requests.filter((request) => request.method === method && request.path.endsWith(suffix)).length;
+}
+
+describe("createCrispClient retries", () => {
+  it("retries a GET after a 5xx", async () => {
+    const { crisp, client, sessionId } = setup();
+    crisp.failNext(503);
+
+    const conversation = await client.getConversation(crisp.websiteId, sessionId);
+    expect(conversation.session_id).toBe(sessionId);
+    expect(crisp.requests).toHaveLength(2);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const { crisp, client, sessionId } = setup();
+    crisp.failNext(502, { times: 3 });
+
+    await expect(client.getConversation(crisp.websiteId, sessionId)).rejects.toMatchObject({ status: 502 });
+    expect(crisp.requests).toHaveLength(3);
+  });
+
+  it("does not retry client errors", async () => {
+    const { crisp, client, sessionId } = setup();
+    crisp.failNext(400);
+    await expect(client.getConversation(crisp.websiteId, sessionId)).rejects.toBeInstanceOf(CrispApiError);
+    expect(crisp.requests).toHaveLength(1);
+
+    crisp.failNext(401);
+    await expect(client.getConversation(crisp.websiteId, sessionId)).rejects.toBeInstanceOf(CrispAuthError);
+    await expect(client.getConversation(crisp.websiteId, "session_missing")).rejects.toBeInstanceOf(
+      CrispNotFoundError
+    );
+    expect(crisp.requests).toHaveLength(3);
+  });
+
+  it("waits for Retry-After on a 429", async () => {
+    const { crisp, client, sessionId } = setup();
+    crisp.failNext(429, { headers: { "Retry-After": "0.05" } });
+
+    const startedAt = Date.now();
+    await client.getConversation(crisp.websiteId, sessionId);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+    expect(crisp.requests).toHaveLength(2);
+  });
+
+  it("fails right away when Retry-After is longer than maxDelayMs", async () => {
+    const { crisp, client, sessionId } = setup();
+    crisp.failNext(429, { headers: { "Retry-After": "120" } });
+
+    const error = await client.getConversation(crisp.websiteId, sessionId).catch((err) => err);
+    expect(error).toBeInstanceOf(CrispRateLimitError);
+    expect(error.retryAfterMs).toBe(120_000);
+    expect(crisp.requests).toHaveLength(1);
+  });
+
+  it("resends a message whose first attempt did not go through", async () => {
+    const { crisp, client, sessionId } = setup();
+    crisp.failNext(503);
+
+    const { fingerprint } = await client.sendMessage({ websiteId: crisp.websiteId, sessionId, content: "Hello" });
+    expect(crisp.getMessages(sessionId)).toEqual([expect.objectContaining({ content: "Hello", fingerprint })]);
+    // Failed send, lookup, resend
+    expect(callsTo(crisp, "POST", "/message")).toBe(2);
+    expect(callsTo(crisp, "GET", "/messages")).toBe(1);
+  });
+
+  it("does not resend a message that went through despite the error", async () => {
+    const crisp = createFakeCrispServer();
+    const { session_id: sessionId } = crisp.createConversation();
+    let failedOnce = false;
+    const client = createCrispClient({
+      apiKeyId: `key_${randomUUID()}`,
+      apiKeySecret: "secret",
+      baseUrl: crisp.baseUrl,
+      retry: { baseDelayMs: 1 },
+      // The first send is stored, but the answer is lost
+      fetch: async (input, init) => {
+        const response = await crisp.fetch(input, init);
+        if (init?.method === "POST" && !failedOnce) {
+          failedOnce = true;
+          return new Response("Bad Gateway", { status: 502 });
+        }
+        return response;
+      },
+    });
+
+    const { fingerprint } = await client.sendMessage({ websiteId: crisp.websiteId, sessionId, content: "Once" });
+    expect(crisp.getMessages(sessionId)).toEqual([expect.objectContaining({ content: "Once", fingerprint })]);
+    expect(callsTo(crisp, "POST", "/message")).toBe(1);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("3", now)).toBe(3_000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now)).toBe(10_000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
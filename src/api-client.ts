@@ -1,19 +1,201 @@
 /**
  * Crisp REST API Client
+ *
+ * Transient failures (timeouts, network errors, 5xx) are retried with
+ * exponential backoff and jitter for idempotent calls, and for message sends
+ * whose fingerprint is checked against the conversation before resending.
+ * 429s are always retried after `Retry-After`, and the rate limit reported by
+ * Crisp is shared by every client using the same API key.
  */
 
 import {
   buildCrispApiUrl,
+  DEFAULT_RETRY_ATTEMPTS,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS,
   DEFAULT_TIMEOUT_MS,
+  type CrispConfig,
   type CrispConversation,
+  type CrispConversationPage,
   type CrispMessage,
+  type CrispOperatorAvailability,
+  type CrispPeopleProfile,
   type CrispSendMessageParams,
 } from "./types.js";
+import { log } from "./logger.js";
 
 export interface CrispApiClientOptions {
   apiKeyId: string;
   apiKeySecret: string;
+  /** API base URL (defaults to the public Crisp API) */
+  baseUrl?: string;
+  /** Transport (defaults to the global fetch) */
+  fetch?: typeof fetch;
   timeoutMs?: number;
+  retry?: {
+    /** Total attempts per call, including the first (1 disables retries) */
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    /** Longest wait between attempts; a longer Retry-After fails the call instead */
+    maxDelayMs?: number;
+  };
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class CrispApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, when Crisp answered */
+    public readonly status?: number,
+    /** Whether the same call may succeed later */
+    public readonly retryable = false
+  ) {
+    super(message);
+    this.name = "CrispApiError";
+  }
+}
+
+/** Credentials rejected (401/403): wrong key, or missing plugin token scopes */
+export class CrispAuthError extends CrispApiError {
+  constructor(message: string, status: number) {
+    super(message, status, false);
+    this.name = "CrispAuthError";
+  }
+}
+
+export class CrispRateLimitError extends CrispApiError {
+  constructor(
+    message: string,
+    /** How long Crisp asked to wait */
+    public readonly retryAfterMs: number
+  ) {
+    super(message, 429, true);
+    this.name = "CrispRateLimitError";
+  }
+}
+
+/** Unknown website, conversation or profile */
+export class CrispNotFoundError extends CrispApiError {
+  constructor(message: string) {
+    super(message, 404, false);
+    this.name = "CrispNotFoundError";
+  }
+}
+
+export class CrispTimeoutError extends CrispApiError {
+  constructor(message: string) {
+    super(message, undefined, true);
+    this.name = "CrispTimeoutError";
+  }
+}
+
+/**
+ * One-line explanation of a failed Crisp call, for operators
+ */
+export function describeCrispError(err: unknown): string {
+  if (err instanceof CrispAuthError) {
+    return `Crisp rejected the API credentials (${err.status}); check apiKeyId/apiKeySecret and the token scopes`;
+  }
+  if (err instanceof CrispRateLimitError) {
+    return `Crisp rate limit reached, retry in ${Math.ceil(err.retryAfterMs / 1000)}s`;
+  }
+  if (err instanceof CrispNotFoundError) {
+    return "Crisp conversation or website not found";
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============================================================================
+// Rate Limit Budget
+// ============================================================================
+
+interface RateLimitBudget {
+  /** Requests left in the current window, as last reported by Crisp */
+  remaining?: number;
+  resetAt?: number;
+  /** No requests before this time (after a 429) */
+  blockedUntil: number;
+}
+
+// Budgets by API key ID (clients are short-lived, the quota is not)
+const budgets = new Map<string, RateLimitBudget>();
+
+function getBudget(apiKeyId: string): RateLimitBudget {
+  let budget = budgets.get(apiKeyId);
+  if (!budget) {
+    budget = { blockedUntil: 0 };
+    budgets.set(apiKeyId, budget);
+  }
+  return budget;
+}
+
+/**
+ * Milliseconds to wait before the budget allows another request
+ */
+function budgetWaitMs(budget: RateLimitBudget, now: number): number {
+  let wait = Math.max(0, budget.blockedUntil - now);
+  if (budget.remaining === 0 && budget.resetAt !== undefined && budget.resetAt > now) {
+    wait = Math.max(wait, budget.resetAt - now);
+  }
+  return wait;
+}
+
+/**
+ * Delay from a Retry-After header (seconds or HTTP date)
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function updateBudget(budget: RateLimitBudget, headers: Headers, now: number): void {
+  const remaining = Number(headers.get("x-ratelimit-remaining") ?? NaN);
+  if (Number.isFinite(remaining)) budget.remaining = remaining;
+
+  const reset = Number(headers.get("x-ratelimit-reset") ?? NaN);
+  if (Number.isFinite(reset)) {
+    // Either an epoch timestamp (seconds) or seconds from now
+    budget.resetAt = reset > 1e9 ? reset * 1000 : now + reset * 1000;
+  }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+const RETRYABLE_STATUSES = new Set([408, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "PATCH"]);
+
+interface FetchOptions<T> {
+  /** Retry transient failures even though the method is POST */
+  idempotent?: boolean;
+  /**
+   * Before resending a non-idempotent call that may have gone through, look
+   * for its effect; a non-null result is returned instead of resending
+   */
+  findApplied?: () => Promise<T | null>;
+}
+
+function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  // Full jitter: uniform in [0, base * 2^attempt]
+  return Math.random() * Math.min(maxMs, baseMs * 2 ** attempt);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Fingerprint for an outgoing message (same shape as Crisp's own)
+ */
+export function createMessageFingerprint(): number {
+  return Date.now() * 1000 + Math.floor(Math.random() * 1000);
 }
 
 export interface CrispApiClient {
@@ -27,6 +209,16 @@ export interface CrispApiClient {
    */
   getConversation(websiteId: string, sessionId: string): Promise<CrispConversation>;
 
+  /**
+   * Get the pages the visitor browsed, most recent first
+   */
+  getConversationPages(websiteId: string, sessionId: string): Promise<CrispConversationPage[]>;
+
+  /**
+   * Get a people profile (by people ID or email)
+   */
+  getPeopleProfile(websiteId: string, peopleId: string): Promise<CrispPeopleProfile>;
+
   /**
    * Get messages from a conversation
    */
@@ -45,6 +237,57 @@ export interface CrispApiClient {
     state: "resolved" | "unresolved"
   ): Promise<void>;
 
+  /**
+   * Assign the conversation to an operator
+   */
+  assignConversation(
+    websiteId: string,
+    sessionId: string,
+    operatorUserId: string
+  ): Promise<void>;
+
+  /**
+   * Dispatch the conversation through the website's routing rules
+   */
+  routeConversation(websiteId: string, sessionId: string): Promise<void>;
+
+  /**
+   * Add segments to the conversation (keeps existing ones)
+   */
+  addSegments(
+    websiteId: string,
+    sessionId: string,
+    segments: string[]
+  ): Promise<void>;
+
+  /**
+   * Post an internal note (only visible to operators)
+   */
+  postNote(websiteId: string, sessionId: string, note: string): Promise<{ fingerprint: number }>;
+
+  /**
+   * Show or hide the operator typing indicator
+   */
+  setComposeState(
+    websiteId: string,
+    sessionId: string,
+    state: "start" | "stop"
+  ): Promise<void>;
+
+  /**
+   * Mark visitor messages as read (all unread when no fingerprints are given)
+   */
+  markMessagesRead(
+    websiteId: string,
+    sessionId: string,
+    fingerprints?: number[]
+  ): Promise<void>;
+
+  /**
+   * List the availability of the website's operators
+   */
+  getOperatorAvailabilities(websiteId: string): Promise<CrispOperatorAvailability[]>;
+
   /**
    * Probe a website to test API connectivity and credentials
    */
@@ -57,43 +300,95 @@ export interface CrispApiClient {
  * Create a Crisp API client
  */
 export function createCrispClient(opts: CrispApiClientOptions): CrispApiClient {
-  const { apiKeyId, apiKeySecret, timeoutMs = DEFAULT_TIMEOUT_MS } = opts;
+  const { apiKeyId, apiKeySecret, baseUrl, timeoutMs = DEFAULT_TIMEOUT_MS } = opts;
+  const transport = opts.fetch ?? fetch;
+  const maxAttempts = Math.max(1, opts.retry?.maxAttempts ?? DEFAULT_RETRY_ATTEMPTS);
+  const baseDelayMs = opts.retry?.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const maxDelayMs = opts.retry?.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  const budget = getBudget(apiKeyId);
 
   // Build Basic Auth header
   const authHeader = `Basic ${Buffer.from(`${apiKeyId}:${apiKeySecret}`).toString("base64")}`;
 
-  async function crispFetch<T>(
-    path: string,
-    init: RequestInit = {}
-  ): Promise<T> {
-    const url = buildCrispApiUrl(path);
+  /**
+   * Single attempt; throws a CrispApiError (or subclass) on any failure
+   */
+  async function attemptFetch<T>(path: string, init: RequestInit): Promise<T> {
+    const url = buildCrispApiUrl(path, baseUrl);
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const method = init.method ?? "GET";
+    const startedAt = Date.now();
 
     try {
-      const response = await fetch(url, {
-        ...init,
-        signal: controller.signal,
-        headers: {
-          Authorization: authHeader,
-          "Content-Type": "application/json",
-          "X-Crisp-Tier": "plugin",
-          ...init.headers,
-        },
+      let response: Response;
+      try {
+        response = await transport(url, {
+          ...init,
+          signal: controller.signal,
+          headers: {
+            Authorization: authHeader,
+            "Content-Type": "application/json",
+            "X-Crisp-Tier": "plugin",
+            ...init.headers,
+          },
+        });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          throw new CrispTimeoutError(`Crisp API timed out after ${timeoutMs}ms: ${method} ${path}`);
+        }
+        throw new CrispApiError(
+          `Crisp API request failed: ${err instanceof Error ? err.message : String(err)}`,
+          undefined,
+          true
+        );
+      }
+
+      const now = Date.now();
+      updateBudget(budget, response.headers, now);
+
+      log.debug("Crisp API request", {
+        method,
+        path: path.split("?")[0],
+        status: response.status,
+        durationMs: now - startedAt,
+        rateLimitRemaining: budget.remaining,
       });
 
       if (!response.ok) {
         const errorBody = await response.text().catch(() => "");
-        throw new Error(
-          `Crisp API error: ${response.status} ${response.statusText} - ${errorBody}`
-        );
+        const message = `Crisp API error: ${response.status} ${response.statusText} - ${errorBody}`;
+
+        switch (response.status) {
+          case 401:
+          case 403:
+            throw new CrispAuthError(message, response.status);
+          case 404:
+            throw new CrispNotFoundError(message);
+          case 429: {
+            const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"), now)
+              ?? (budget.resetAt !== undefined ? Math.max(0, budget.resetAt - now) : baseDelayMs);
+            budget.blockedUntil = Math.max(budget.blockedUntil, now + retryAfterMs);
+            throw new CrispRateLimitError(message, retryAfterMs);
+          }
+          default:
+            throw new CrispApiError(message, response.status, RETRYABLE_STATUSES.has(response.status));
+        }
+      }
+
+      let json: { error?: boolean; reason?: string; data?: T };
+      try {
+        json = await response.json() as typeof json;
+      } catch {
+        if (controller.signal.aborted) {
+          throw new CrispTimeoutError(`Crisp API timed out after ${timeoutMs}ms: ${method} ${path}`);
+        }
+        throw new CrispApiError("Crisp API returned an invalid response", response.status, true);
       }
 
-      const json = await response.json() as { error?: boolean; reason?: string; data?: T };
-      
       // Crisp wraps responses in { error: boolean, data: T }
       if (json.error) {
-        throw new Error(`Crisp API error: ${json.reason || "Unknown error"}`);
+        throw new CrispApiError(`Crisp API error: ${json.reason || "Unknown error"}`, response.status);
       }
 
       return json.data as T;
@@ -102,22 +397,90 @@ export function createCrispClient(opts: CrispApiClientOptions): CrispApiClient {
     }
   }
 
+  async function crispFetch<T>(
+    path: string,
+    init: RequestInit = {},
+    options: FetchOptions<T> = {}
+  ): Promise<T> {
+    const method = (init.method ?? "GET").toUpperCase();
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+
+    for (let attempt = 0; ; attempt++) {
+      const wait = budgetWaitMs(budget, Date.now());
+      if (wait > maxDelayMs) {
+        throw new CrispRateLimitError(`Crisp rate limit reached for ${method} ${path}`, wait);
+      }
+      if (wait > 0) await sleep(wait);
+
+      try {
+        return await attemptFetch<T>(path, init);
+      } catch (err) {
+        if (!(err instanceof CrispApiError) || !err.retryable || attempt + 1 >= maxAttempts) {
+          throw err;
+        }
+
+        // A 429 was not processed; anything else may have been
+        const rateLimited = err instanceof CrispRateLimitError;
+        if (!rateLimited && !idempotent && !options.findApplied) {
+          throw err;
+        }
+
+        const delay = rateLimited ? err.retryAfterMs : backoffDelay(attempt, baseDelayMs, maxDelayMs);
+        if (delay > maxDelayMs) throw err;
+
+        log.warn("Retrying Crisp API request", {
+          method,
+          path: path.split("?")[0],
+          attempt: attempt + 1,
+          delayMs: Math.round(delay),
+          error: err,
+        });
+        // Rate-limit waits go through the shared budget at the top of the loop
+        if (!rateLimited) await sleep(delay);
+
+        if (!rateLimited && !idempotent && options.findApplied) {
+          const applied = await options.findApplied().catch(() => null);
+          if (applied !== null) return applied;
+        }
+      }
+    }
+  }
+
+  /**
+   * Look for a message that a failed send may have delivered anyway
+   */
+  async function findSentMessage(
+    websiteId: string,
+    sessionId: string,
+    fingerprint: number
+  ): Promise<{ fingerprint: number } | null> {
+    const messages = await crispFetch<CrispMessage[]>(
+      `/website/${websiteId}/conversation/${sessionId}/messages`
+    );
+    return (messages ?? []).some((message) => message.fingerprint === fingerprint)
+      ? { fingerprint }
+      : null;
+  }
+
   return {
     async sendMessage(params: CrispSendMessageParams) {
       const { websiteId, sessionId, content, type = "text" } = params;
       const path = `/website/${websiteId}/conversation/${sessionId}/message`;
+      const fingerprint = params.fingerprint ?? createMessageFingerprint();
 
       const body = {
         type,
         content,
         from: "operator",
         origin: "chat",
+        fingerprint,
       };
 
-      const response = await crispFetch<{ fingerprint: number }>(path, {
-        method: "POST",
-        body: JSON.stringify(body),
-      });
+      const response = await crispFetch<{ fingerprint: number }>(
+        path,
+        { method: "POST", body: JSON.stringify(body) },
+        { findApplied: () => findSentMessage(websiteId, sessionId, fingerprint) }
+      );
 
       return { fingerprint: response.fingerprint };
     },
@@ -127,6 +490,16 @@ export function createCrispClient(opts: CrispApiClientOptions): CrispApiClient {
       return crispFetch<CrispConversation>(path);
     },
 
+    async getConversationPages(websiteId: string, sessionId: string) {
+      const path = `/website/${websiteId}/conversation/${sessionId}/pages/1`;
+      return (await crispFetch<CrispConversationPage[]>(path)) ?? [];
+    },
+
+    async getPeopleProfile(websiteId: string, peopleId: string) {
+      const path = `/website/${websiteId}/people/profile/${encodeURIComponent(peopleId)}`;
+      return crispFetch<CrispPeopleProfile>(path);
+    },
+
     async getMessages(
       websiteId: string,
       sessionId: string,
@@ -149,6 +522,85 @@ export function createCrispClient(opts: CrispApiClientOptions): CrispApiClient {
       });
     },
 
+    async assignConversation(
+      websiteId: string,
+      sessionId: string,
+      operatorUserId: string
+    ) {
+      const path = `/website/${websiteId}/conversation/${sessionId}/routing`;
+      await crispFetch<void>(path, {
+        method: "PATCH",
+        body: JSON.stringify({ assigned: { user_id: operatorUserId } }),
+      });
+    },
+
+    async routeConversation(websiteId: string, sessionId: string) {
+      const path = `/website/${websiteId}/conversation/${sessionId}/routing`;
+      await crispFetch<void>(path, { method: "POST" });
+    },
+
+    async addSegments(
+      websiteId: string,
+      sessionId: string,
+      segments: string[]
+    ) {
+      const meta = await crispFetch<{ segments?: string[] }>(
+        `/website/${websiteId}/conversation/${sessionId}/meta`
+      );
+      const merged = Array.from(new Set([...(meta?.segments ?? []), ...segments]));
+      await crispFetch<void>(`/website/${websiteId}/conversation/${sessionId}/meta`, {
+        method: "PATCH",
+        body: JSON.stringify({ segments: merged }),
+      });
+    },
+
+    async postNote(websiteId: string, sessionId: string, note: string) {
+      const path = `/website/${websiteId}/conversation/${sessionId}/message`;
+      const fingerprint = createMessageFingerprint();
+      const response = await crispFetch<{ fingerprint: number }>(
+        path,
+        {
+          method: "POST",
+          body: JSON.stringify({ type: "note", content: note, from: "operator", origin: "chat", fingerprint }),
+        },
+        { findApplied: () => findSentMessage(websiteId, sessionId, fingerprint) }
+      );
+      return { fingerprint: response.fingerprint };
+    },
+
+    async setComposeState(
+      websiteId: string,
+      sessionId: string,
+      state: "start" | "stop"
+    ) {
+      const path = `/website/${websiteId}/conversation/${sessionId}/compose`;
+      await crispFetch<void>(path, {
+        method: "PATCH",
+        body: JSON.stringify({ type: state, from: "operator" }),
+      });
+    },
+
+    async markMessagesRead(
+      websiteId: string,
+      sessionId: string,
+      fingerprints?: number[]
+    ) {
+      const path = `/website/${websiteId}/conversation/${sessionId}/read`;
+      await crispFetch<void>(path, {
+        method: "PATCH",
+        body: JSON.stringify({
+          from: "operator",
+          origin: "chat",
+          ...(fingerprints && fingerprints.length > 0 ? { fingerprints } : {}),
+        }),
+      });
+    },
+
+    async getOperatorAvailabilities(websiteId: string) {
+      const path = `/website/${websiteId}/availability/operators`;
+      return (await crispFetch<CrispOperatorAvailability[]>(path)) ?? [];
+    },
+
     async probeWebsite(websiteId: string) {
       try {
         const data = await crispFetch<{ name: string; domain: string }>(
@@ -156,8 +608,31 @@ export function createCrispClient(opts: CrispApiClientOptions): CrispApiClient {
         );
         return { ok: true as const, website: { name: data.name, domain: data.domain } };
       } catch (err) {
-        return { ok: false as const, error: err instanceof Error ? err.message : String(err) };
+        return { ok: false as const, error: describeCrispError(err) };
       }
     },
   };
 }
+
+// Clients by account config object (a reload that changes an account replaces its config)
+const configClients = new WeakMap<object, CrispApiClient>();
+
+/**
+ * Get the Crisp API client for an account's config (shared until the config changes)
+ */
+export function createCrispClientFromConfig(
+  config: Pick<CrispConfig, "apiKeyId" | "apiKeySecret" | "apiBaseUrl">,
+  overrides?: Partial<CrispApiClientOptions>
+): CrispApiClient {
+  const cached = overrides ? undefined : configClients.get(config);
+  if (cached) return cached;
+
+  const client = createCrispClient({
+    apiKeyId: config.apiKeyId,
+    apiKeySecret: config.apiKeySecret,
+    baseUrl: config.apiBaseUrl,
+    ...overrides,
+  });
+  if (!overrides) configClients.set(config, client);
+  return client;
+}
@@ -0,0 +1,516 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createCrispClient } from "./api-client.js";
+import { createCrispHttpHandler, crispPlugin, reloadCrispConfig, setCrispRuntime } from "./channel.js";
+import { crispCommands } from "./commands.js";
+import { createFakeCrispServer, type FakeCrispServer } from "../test/fake-crisp-server.js";
+import { getAllPendingReplies } from "./pending-replies.js";
+import { getTakeoverState, pauseSession, resumeSession } from "./takeover.js";
+import { createFakeRuntime, type FakeAgentTurn, type FakeRuntime, type FakeRuntimeOptions } from "../test/fake-runtime.js";
+
+const SIGNING_SECRET = "test-signing-secret";
+
+interface Harness {
+  crisp: FakeCrispServer;
+  webhookUrl: string;
+  turns: FakeAgentTurn[];
+  systemEvents: FakeRuntime["systemEvents"];
+  logs: FakeRuntime["logs"];
+  /** Config the account was started with */
+  cfg: { channels: { crisp: Record<string, unknown> } };
+  stop: () => Promise<void>;
+}
+
+const cleanups: Array<() => Promise<void>> = [];
+
+afterEach(async () => {
+  while (cleanups.length > 0) await cleanups.pop()!();
+});
+
+async function listen(server: Server): Promise<number> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  cleanups.push(() => new Promise<void>((resolve) => server.close(() => resolve())));
+  return (server.address() as AddressInfo).port;
+}
+
+/**
+ * Gateway HTTP server running the real webhook handler, with a started
+ * account pointed at a fake Crisp server
+ */
+async function startHarness(
+  settings: Record<string, unknown> = {},
+  runtimeOptions: FakeRuntimeOptions = {}
+): Promise<Harness> {
+  const { runtime, turns, systemEvents, logs } = createFakeRuntime(runtimeOptions);
+  setCrispRuntime(runtime);
+
+  let handler: ReturnType<typeof createCrispHttpHandler> | null = null;
+  const gateway = createServer(async (req, res) => {
+    if (!(await handler?.(req, res))) {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  const webhookUrl = `http://127.0.0.1:${await listen(gateway)}/crisp-webhook`;
+
+  const crisp = createFakeCrispServer({ webhookUrl, webhookSigningSecret: SIGNING_SECRET });
+  const apiBaseUrl = await crisp.listen();
+  cleanups.push(() => crisp.close());
+
+  const cfg = {
+    channels: {
+      crisp: {
+        websiteId: crisp.websiteId,
+        apiKeyId: "test-key",
+        apiKeySecret: "test-secret",
+        apiBaseUrl,
+        webhookVerification: "signature",
+        webhookSigningSecret: SIGNING_SECRET,
+        autoReply: true,
+        pendingStore: "memory",
+        ...settings,
+      },
+    },
+  };
+
+  handler = createCrispHttpHandler(cfg);
+  const account = crispPlugin.config.resolveAccount(cfg);
+  expect(account.configIssues).toEqual([]);
+
+  const { stop } = await crispPlugin.gateway.startAccount({
+    account,
+    accountId: account.accountId,
+    cfg,
+    runtime: {},
+    setStatus: () => {},
+    abortSignal: new AbortController().signal,
+  });
+  cleanups.push(stop);
+
+  return { crisp, webhookUrl, turns, systemEvents, logs, cfg, stop };
+}
+
+function waitForReply(crisp: FakeCrispServer, sessionId: string, timeoutMs?: number) {
+  return crisp.waitForMessage(
+    (message) => message.session_id === sessionId && message.from === "operator" && message.type !== "note",
+    timeoutMs
+  );
+}
+
+function pendingFor(sessionId: string) {
+  return getAllPendingReplies().filter((pending) => pending.crispSessionId === sessionId);
+}
+
+describe("Crisp webhook → agent → reply", () => {
+  it("answers a signed visitor message through the Crisp API", async () => {
+    const { crisp, turns } = await startHarness();
+
+    const response = await crisp.sendVisitorMessage("session_reply", "Hello there", { nickname: "Jane" });
+    expect(response.status).toBe(200);
+
+    const reply = await waitForReply(crisp, "session_reply");
+    expect(reply.content).toBe("Echo: Hello there");
+    expect(turns).toEqual([expect.objectContaining({ sessionId: "session_reply", text: "Hello there" })]);
+  });
+
+  it("greets a new visitor before the agent answers", async () => {
+    const { crisp } = await startHarness({ greetingMessage: "Welcome {name|there}!" });
+
+    await crisp.sendVisitorMessage("session_greeting", "Hello", { nickname: "Vera" });
+    await crisp.waitForMessage((message) => message.session_id === "session_greeting" && message.content === "Echo: Hello");
+    await crisp.sendVisitorMessage("session_greeting", "Again");
+    await crisp.waitForMessage((message) => message.session_id === "session_greeting" && message.content === "Echo: Again");
+
+    const sent = crisp.getMessages("session_greeting").filter((message) => message.from === "operator");
+    expect(sent.map((message) => message.content)).toEqual(["Welcome Vera!", "Echo: Hello", "Echo: Again"]);
+  });
+
+  it("tells the agent which language the visitor speaks", async () => {
+    const { crisp, turns } = await startHarness();
+    crisp.createConversation({ sessionId: "session_language", locales: ["fr-FR", "en"] });
+
+    await crisp.sendVisitorMessage("session_language", "Bonjour");
+    await waitForReply(crisp, "session_language");
+
+    expect(turns[0].ctx.VisitorLocale).toBe("fr-FR");
+    expect(turns[0].ctx.BodyForAgent).toContain("[Visitor language: fr-FR. Reply in this language.]");
+  });
+
+  it("gives the agent the allowed visitor profile", async () => {
+    const { crisp, turns } = await startHarness({ visitorProfile: { contact: ["email"], location: ["city"] } });
+    crisp.createConversation({
+      sessionId: "session_profile",
+      meta: { phone: "+33 6 12 34 56 78", device: { locales: ["en"], geolocation: { country: "France", city: "Lyon" } } },
+    });
+
+    await crisp.sendVisitorMessage("session_profile", "Hello");
+    await waitForReply(crisp, "session_profile");
+    // The visitor left their email after the first answer
+    await crisp.emitWebhook("session:set_email", { session_id: "session_profile", email: "vera@example.com" });
+    await crisp.sendVisitorMessage("session_profile", "Any news?");
+    await crisp.waitForMessage((message) => message.content === "Echo: Any news?");
+
+    expect(turns[0].ctx.VisitorProfile).toEqual({ location: { city: "Lyon" } });
+    expect(turns[1].ctx.VisitorProfile).toEqual({ contact: { email: "vera@example.com" }, location: { city: "Lyon" } });
+    expect(turns[1].ctx.BodyForAgent).toContain("[Visitor] email: vera@example.com · location: Lyon");
+    expect(turns[1].ctx.BodyForAgent).not.toContain("+33");
+  });
+
+  it("tags the log lines of each delivery with one request ID", async () => {
+    const { crisp, logs } = await startHarness();
+
+    await crisp.sendVisitorMessage("session_logs", "Hello there");
+    await waitForReply(crisp, "session_logs");
+
+    const received = logs.find((line) => line.message === "Visitor message received")!;
+    const requestId = received.bindings?.requestId;
+    expect(requestId).toEqual(expect.any(String));
+    expect(received.bindings).toEqual(expect.objectContaining({ plugin: "crisp", accountId: "default", sessionId: "session_logs" }));
+    expect(received.fields).toEqual(expect.objectContaining({ body: "<11 chars>" }));
+    expect(logs.filter((line) => line.bindings?.requestId === requestId).length).toBeGreaterThan(1);
+    expect(JSON.stringify(logs)).not.toContain("Hello there");
+  });
+
+  it("rejects deliveries with a wrong or missing signature", async () => {
+    const { crisp, webhookUrl, turns } = await startHarness();
+    const body = JSON.stringify({
+      website_id: crisp.websiteId,
+      event: "message:send",
+      data: { website_id: crisp.websiteId, session_id: "session_forged", from: "user", type: "text", content: "hi" },
+    });
+
+    const forged = await fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Crisp-Request-Timestamp": String(Date.now()),
+        "X-Crisp-Signature": "0".repeat(64),
+      },
+      body,
+    });
+    expect(forged.status).toBe(401);
+
+    const unsigned = await fetch(webhookUrl, { method: "POST", body });
+    expect(unsigned.status).toBe(401);
+    expect(turns).toEqual([]);
+  });
+
+  it("retries a Crisp API call that failed with a 503", async () => {
+    const { crisp } = await startHarness();
+    crisp.failNext(503);
+
+    await crisp.sendVisitorMessage("session_retry", "Still there?");
+    const reply = await waitForReply(crisp, "session_retry");
+    expect(reply.content).toBe("Echo: Still there?");
+
+    // Other calls of the turn run alongside, so the retry is not necessarily next
+    const [failed, ...rest] = crisp.requests;
+    expect(rest).toContainEqual(expect.objectContaining({ method: failed.method, path: failed.path }));
+  });
+
+  it("processes a redelivered message once", async () => {
+    const { crisp, turns } = await startHarness();
+
+    await crisp.sendVisitorMessage("session_dedupe", "Only once");
+    await waitForReply(crisp, "session_dedupe");
+
+    const [{ website_id: _websiteId, ...message }] = crisp.getMessages("session_dedupe");
+    const redelivery = await crisp.emitWebhook("message:send", message);
+    expect(await redelivery.json()).toEqual({ ok: true, duplicate: true });
+
+    expect(turns).toHaveLength(1);
+    expect(crisp.getMessages("session_dedupe").filter((m) => m.from === "operator")).toHaveLength(1);
+  });
+
+  it("merges a burst of messages into one agent turn", async () => {
+    const { crisp, turns } = await startHarness({ debounceMs: 300 });
+
+    await crisp.sendVisitorMessage("session_burst", "Hi");
+    await crisp.sendVisitorMessage("session_burst", "I have a question");
+    const reply = await waitForReply(crisp, "session_burst");
+
+    expect(reply.content).toBe("Echo: Hi\nI have a question");
+    expect(turns).toHaveLength(1);
+  });
+
+  it("sends the agent's crisp blocks as rich messages", async () => {
+    const { crisp } = await startHarness({}, {
+      agent: () => 'Which plan?\n\n```crisp\n{ "type": "picker", "id": "plan", "text": "Pick one", "choices": ["Basic", "Pro"] }\n```',
+    });
+
+    await crisp.sendVisitorMessage("session_rich", "I want to subscribe");
+    await crisp.waitForMessage((message) => message.session_id === "session_rich" && message.type === "picker");
+
+    const sent = crisp.getMessages("session_rich").filter((message) => message.from === "operator");
+    expect(sent.map((message) => message.type)).toEqual(["text", "picker"]);
+    expect(sent[0].content).toBe("Which plan?");
+    expect(sent[1].content).toEqual(expect.objectContaining({ id: "plan", text: "Pick one" }));
+  });
+
+  it("keeps internal notes out of the model history", async () => {
+    const { crisp, turns } = await startHarness();
+
+    await crisp.sendVisitorMessage("session_history", "My order is late");
+    await waitForReply(crisp, "session_history");
+    const operator = createCrispClient({ apiKeyId: "test-key", apiKeySecret: "test-secret", baseUrl: crisp.baseUrl, fetch: crisp.fetch });
+    await operator.postNote(crisp.websiteId, "session_history", "Handoff: visitor is angry");
+
+    await crisp.sendVisitorMessage("session_history", "Any news?");
+    await crisp.waitForMessage((message) => message.content === "Echo: Any news?");
+
+    const body = String(turns[1].ctx.Body);
+    expect(body).toContain("My order is late");
+    expect(body).toContain("Echo: My order is late");
+    expect(body).not.toContain("visitor is angry");
+    expect(body).not.toContain("[note]");
+  });
+
+  it("refuses deliveries once the account is stopped", async () => {
+    const { crisp, turns, stop } = await startHarness();
+    await stop();
+
+    const response = await crisp.sendVisitorMessage("session_stopped", "Anyone?");
+    expect(response.status).toBe(503);
+    expect(turns).toEqual([]);
+  });
+});
+
+describe("approval drafts", () => {
+  it("holds the agent's answer as a draft instead of sending it", async () => {
+    const { crisp, turns, systemEvents } = await startHarness(
+      { approvalMode: true },
+      { agent: () => "We open at 9am." }
+    );
+
+    await crisp.sendVisitorMessage("session_draft", "When do you open?", { nickname: "Vera" });
+    await vi.waitFor(() => expect(systemEvents).toHaveLength(1));
+
+    expect(turns).toHaveLength(1);
+    expect(pendingFor("session_draft")).toEqual([
+      expect.objectContaining({ visitorName: "Vera", visitorMessage: "When do you open?", proposedReply: "We open at 9am." }),
+    ]);
+    expect(systemEvents[0].message).toContain('(draft: "We open at 9am.")');
+    expect(crisp.getMessages("session_draft").filter((message) => message.from === "operator")).toEqual([]);
+  });
+
+  it("asks a human to write the answer in notify style", async () => {
+    const { crisp, turns, systemEvents } = await startHarness({ approvalMode: true, approvalStyle: "notify" });
+
+    await crisp.sendVisitorMessage("session_notify_style", "Can I talk to someone?");
+    await vi.waitFor(() => expect(systemEvents).toHaveLength(1));
+
+    expect(turns).toEqual([]);
+    expect(pendingFor("session_notify_style")).toEqual([expect.objectContaining({ proposedReply: "" })]);
+    expect(systemEvents[0].message).not.toContain("draft:");
+  });
+
+  it("hands off instead of holding a draft that asks for a human", async () => {
+    const { crisp, systemEvents } = await startHarness(
+      { approvalMode: true },
+      { agent: () => "Let me get a colleague. [[handoff: refund request]]" }
+    );
+
+    await crisp.sendVisitorMessage("session_draft_handoff", "I want a refund");
+    await crisp.waitForMessage((message) => message.session_id === "session_draft_handoff" && message.type === "note");
+
+    expect(pendingFor("session_draft_handoff")).toEqual([]);
+    expect(systemEvents).toEqual([]);
+  });
+});
+
+describe("typing and read receipts", () => {
+  function requestIndex(crisp: FakeCrispServer, method: string, suffix: string, type?: string): number {
+    return crisp.requests.findIndex((request) =>
+      request.method === method &&
+      request.path.endsWith(suffix) &&
+      (type === undefined || (request.body as { type?: string } | undefined)?.type === type)
+    );
+  }
+
+  it("marks the visitor's messages read and types until the reply is sent", async () => {
+    const { crisp } = await startHarness();
+
+    await crisp.sendVisitorMessage("session_typing", "Hello");
+    await waitForReply(crisp, "session_typing");
+
+    const [visitorMessage] = crisp.getMessages("session_typing");
+    const read = crisp.requests.find((request) => request.method === "PATCH" && request.path.endsWith("/read"));
+    expect(read?.body).toEqual({ from: "operator", origin: "chat", fingerprints: [visitorMessage.fingerprint] });
+
+    const typingStarted = requestIndex(crisp, "PATCH", "/compose", "start");
+    const typingStopped = requestIndex(crisp, "PATCH", "/compose", "stop");
+    const replied = requestIndex(crisp, "POST", "/message");
+    expect(typingStarted).toBeGreaterThanOrEqual(0);
+    expect(typingStarted).toBeLessThan(typingStopped);
+    expect(typingStopped).toBeLessThan(replied);
+  });
+
+  it("does neither when both are turned off", async () => {
+    const { crisp } = await startHarness({ typingIndicator: false, markRead: false });
+
+    await crisp.sendVisitorMessage("session_quiet", "Hello");
+    await waitForReply(crisp, "session_quiet");
+
+    expect(requestIndex(crisp, "PATCH", "/compose")).toBe(-1);
+    expect(requestIndex(crisp, "PATCH", "/read")).toBe(-1);
+  });
+});
+
+describe("operator takeover", () => {
+  it("stops answering once an operator replies from the dashboard", async () => {
+    const { crisp, turns } = await startHarness();
+
+    await crisp.emitWebhook("message:send", {
+      session_id: "session_takeover",
+      from: "operator",
+      type: "text",
+      content: "Hi, Olivia here",
+      fingerprint: 1001,
+      user: { nickname: "Olivia", user_id: "operator_olivia" },
+    });
+    await crisp.sendVisitorMessage("session_takeover", "Thanks Olivia");
+
+    expect(getTakeoverState("session_takeover")).toEqual(expect.objectContaining({ reason: "operator", operator: "Olivia" }));
+
+    resumeSession("session_takeover");
+    await crisp.sendVisitorMessage("session_takeover", "Anyone there?");
+    const reply = await waitForReply(crisp, "session_takeover");
+
+    expect(reply.content).toBe("Echo: Anyone there?");
+    expect(turns.map((turn) => turn.text)).toEqual(["Anyone there?"]);
+  });
+
+  it("pauses and resumes through the operator commands", async () => {
+    const { crisp, turns } = await startHarness();
+    const run = (name: string, args?: string) => {
+      const command = crispCommands.find((candidate) => candidate.name === name)!;
+      return command.handler({ channel: "telegram", isAuthorizedSender: true, args, commandBody: `/${name} ${args ?? ""}`, config: {} });
+    };
+
+    expect(await run("crisp-pause")).toEqual({ text: "Usage: /crisp-pause <session_id> [account]" });
+    expect(await run("crisp-pause", "session_command unknown")).toEqual({ text: "Unknown Crisp account: unknown" });
+    expect(await run("crisp-pause", "session_command")).toEqual({
+      text: "⏸️ Auto-replies paused for session_command until /crisp-resume",
+    });
+    expect(await run("crisp-resume")).toEqual({
+      text: "Usage: /crisp-resume <session_id> [account]\nPaused: session_command [default] (manual)",
+    });
+
+    await crisp.sendVisitorMessage("session_command", "Hello?");
+
+    expect(await run("crisp-resume", "session_command")).toEqual({ text: "▶️ Auto-replies resumed for session_command" });
+    expect(await run("crisp-resume", "session_command")).toEqual({ text: "session_command was not paused" });
+
+    await crisp.sendVisitorMessage("session_command", "Hello again");
+    expect((await waitForReply(crisp, "session_command")).content).toBe("Echo: Hello again");
+    expect(turns.map((turn) => turn.text)).toEqual(["Hello again"]);
+  });
+
+  it("pauses a conversation assigned to an operator", async () => {
+    const { crisp } = await startHarness({ takeoverCooldownMinutes: 0 });
+
+    await crisp.emitWebhook("session:set_routing", { session_id: "session_assigned", assigned: { user_id: "operator_olivia" } });
+
+    expect(getTakeoverState("session_assigned")).toEqual(
+      expect.objectContaining({ reason: "assignment", operator: "operator_olivia", resumeAt: null })
+    );
+  });
+
+  it("ignores operators when takeover detection is off", async () => {
+    const { crisp } = await startHarness({ takeoverDetection: false });
+
+    await crisp.emitWebhook("message:send", {
+      session_id: "session_no_takeover",
+      from: "operator",
+      type: "text",
+      content: "Hi, Olivia here",
+    });
+    await crisp.sendVisitorMessage("session_no_takeover", "Hello");
+
+    expect(getTakeoverState("session_no_takeover")).toBeNull();
+    expect((await waitForReply(crisp, "session_no_takeover")).content).toBe("Echo: Hello");
+  });
+});
+
+describe("handoff", () => {
+  it("hands the conversation to a human when the visitor asks for one", async () => {
+    const { crisp, turns } = await startHarness({ handoffKeywords: ["human"] });
+
+    await crisp.sendVisitorMessage("session_keyword", "I want to talk to a human");
+    const note = await crisp.waitForMessage((message) => message.session_id === "session_keyword" && message.type === "note");
+
+    expect(note.content).toBe('🙋 Handoff to a human (keyword): Visitor wrote "human"');
+    await vi.waitFor(() => expect(crisp.getConversation("session_keyword")?.state).toBe("unresolved"));
+    expect(crisp.getConversation("session_keyword")?.meta.segments).toEqual(["needs-human"]);
+    expect(getTakeoverState("session_keyword")).toEqual(expect.objectContaining({ reason: "handoff" }));
+    expect(turns).toEqual([]);
+  });
+
+  it("sends the agent's reply without its handoff marker", async () => {
+    const { crisp } = await startHarness({}, { agent: () => "Let me get a colleague. [[handoff: refund request]]" });
+
+    await crisp.sendVisitorMessage("session_marker", "I want a refund");
+    const reply = await waitForReply(crisp, "session_marker");
+    const note = await crisp.waitForMessage((message) => message.session_id === "session_marker" && message.type === "note");
+
+    expect(reply.content).toBe("Let me get a colleague.");
+    expect(note.content).toBe("🙋 Handoff to a human (marker): refund request");
+  });
+});
+
+describe("reply policy", () => {
+  it("answers out of hours with the template instead of the agent", async () => {
+    const { crisp, turns } = await startHarness({
+      replyPolicy: "outside_hours",
+      // No opening window: the office is always closed
+      businessHours: { timezone: "Europe/Paris", schedule: [] },
+      outOfHoursReply: "template",
+      autoReplyMessage: "Hi {name}, we are closed right now.",
+    });
+
+    await crisp.sendVisitorMessage("session_closed", "Hello", { nickname: "Vera" });
+    const reply = await waitForReply(crisp, "session_closed");
+
+    expect(reply.content).toBe("Hi Vera, we are closed right now.");
+    expect(turns).toEqual([]);
+  });
+
+  it("stays quiet while an operator is online", async () => {
+    const { crisp, turns } = await startHarness({ replyPolicy: "no_operator" });
+    crisp.setOperatorAvailabilities([{ user_id: "operator_olivia", type: "online" }]);
+
+    await crisp.sendVisitorMessage("session_staffed", "Hello");
+    await vi.waitFor(() =>
+      expect(crisp.requests).toContainEqual(expect.objectContaining({ path: expect.stringMatching(/\/availability\/operators$/) }))
+    );
+
+    await expect(waitForReply(crisp, "session_staffed", 300)).rejects.toThrow(/No matching Crisp message/);
+    expect(turns).toEqual([]);
+  });
+});
+
+describe("config reload", () => {
+  it("applies reloaded settings to the next delivery without a restart", async () => {
+    const { crisp, cfg, systemEvents } = await startHarness();
+    pauseSession({ accountId: "default", sessionId: "session_paused", reason: "manual", cooldownMs: null });
+
+    reloadCrispConfig({ channels: { crisp: { ...cfg.channels.crisp, approvalMode: true } } });
+    await crisp.sendVisitorMessage("session_reloaded", "When do you open?");
+    await vi.waitFor(() => expect(systemEvents).toHaveLength(1));
+
+    expect(pendingFor("session_reloaded")).toEqual([expect.objectContaining({ proposedReply: "Echo: When do you open?" })]);
+    expect(crisp.getMessages("session_reloaded").filter((message) => message.from === "operator")).toEqual([]);
+    // Same website: conversations handed to a human stay with them
+    expect(getTakeoverState("session_paused")).not.toBeNull();
+  });
+
+  it("forgets the old website's conversations when the website changes", async () => {
+    const { cfg } = await startHarness();
+    pauseSession({ accountId: "default", sessionId: "session_old_site", reason: "manual", cooldownMs: null });
+
+    reloadCrispConfig({ channels: { crisp: { ...cfg.channels.crisp, websiteId: "22222222-2222-4222-8222-222222222222" } } });
+
+    expect(getTakeoverState("session_old_site")).toBeNull();
+  });
+});
@@ -3,10 +3,50 @@
  */
 
 import type { IncomingMessage, ServerResponse } from "node:http";
-import { CrispConfigSchema, type CrispConfig, type ResolvedCrispAccount } from "./types.js";
-import { createCrispClient } from "./api-client.js";
-import { handleCrispWebhookRequest, resolveWebhookPath } from "./monitor.js";
+import type { ClawdbotConfig } from "clawdbot/plugin-sdk";
+import {
+  CHANNEL_LEVEL_SETTINGS,
+  CRISP_API_BASE,
+  CrispChannelSettingsSchema,
+  CrispConfigSchema,
+  type CrispChannelSettings,
+  type CrispConfig,
+  type ResolvedCrispAccount,
+} from "./types.js";
+import { createCrispClientFromConfig, describeCrispError } from "./api-client.js";
+import { buildFileMessage } from "./rich-messages.js";
+import { clearTakeovers, listTakeovers, sendOwnMessage } from "./takeover.js";
+import {
+  handleCrispWebhookRequest,
+  readRawBody,
+  resetAccountState,
+  WebhookBodyTooLargeError,
+} from "./monitor.js";
 import { setCrispRuntime } from "./runtime.js";
+import { log } from "./logger.js";
+import { filterWebhookAccountsBySecret, selectWebhookAccount } from "./webhook-router.js";
+import { normalizeWebhookPath, resolveWebhookPath } from "./webhook-paths.js";
+import {
+  applyAccountConfig,
+  getAccountConfig,
+  getConfigSnapshot,
+  hasConfigChanges,
+  type ConfigSnapshot,
+} from "./account-registry.js";
+import {
+  isAccountRunning,
+  startAccountRuntime,
+  stopAccountRuntime,
+  updateAccountRuntime,
+} from "./account-lifecycle.js";
+import { clearOperatorAvailability } from "./reply-policy.js";
+import { formatConfigIssues, toConfigIssues } from "./config-schema.js";
+import { describeSecretSources } from "./secrets.js";
+import {
+  handleTelegramWebhookRequest,
+  runTelegramPolling,
+  type TelegramApprovalContext,
+} from "./telegram-approval.js";
 
 // Default account ID for single-account setups
 const DEFAULT_ACCOUNT_ID = "default";
@@ -44,7 +84,9 @@ function resolveCrispAccount(params: {
       enabled: false,
       configured: false,
       config: {} as CrispConfig,
-      baseUrl: "https://api.crisp.chat/v1",
+      baseUrl: CRISP_API_BASE,
+      configIssues: [],
+      secretSources: {},
     };
   }
 
@@ -56,12 +98,24 @@ function resolveCrispAccount(params: {
 
   const parsed = CrispConfigSchema.safeParse(accountConfig);
   const config = parsed.success ? parsed.data : ({} as CrispConfig);
+  const configIssues = parsed.success ? [] : toConfigIssues(parsed.error);
+
+  // Shared settings can only be set once, at the top level
+  const overrides = accountConfig === crispConfig ? {} : (accounts?.[accountId] as Record<string, unknown>);
+  for (const key of CHANNEL_LEVEL_SETTINGS) {
+    if (key in overrides) {
+      configIssues.push({
+        path: key,
+        message: `${key} is shared by all accounts; set it under channels.crisp, not per account (ignored)`,
+      });
+    }
+  }
 
   const configured = Boolean(
     config.websiteId &&
     config.apiKeyId &&
     config.apiKeySecret &&
-    config.webhookSecret
+    (config.webhookSecret || config.webhookSigningSecret)
   );
 
   return {
@@ -70,10 +124,34 @@ function resolveCrispAccount(params: {
     enabled: (accountConfig.enabled as boolean) !== false,
     configured,
     config,
-    baseUrl: "https://api.crisp.chat/v1",
+    baseUrl: config.apiBaseUrl ?? CRISP_API_BASE,
+    configIssues,
+    secretSources: describeSecretSources(accountConfig),
   };
 }
 
+/**
+ * Account for an outbound send: the one resolved at the last config load, so
+ * secret references are not read again per message and the account's API
+ * client is reused. Resolved from `cfg` when the gateway has not loaded the
+ * config (one-off sends from the CLI).
+ */
+function resolveOutboundAccount(cfg: Record<string, unknown>, accountId = DEFAULT_ACCOUNT_ID): ResolvedCrispAccount {
+  return getConfigSnapshot()?.accounts.get(accountId)?.account ?? resolveCrispAccount({ cfg, accountId });
+}
+
+/**
+ * Channel-level settings, from the top level of `channels.crisp`
+ */
+export function resolveCrispChannelSettings(cfg: Record<string, unknown>): CrispChannelSettings {
+  const channels = cfg.channels as Record<string, unknown> | undefined;
+  const parsed = CrispChannelSettingsSchema.safeParse(channels?.crisp ?? {});
+  if (parsed.success) return parsed.data;
+
+  log.error("Invalid Crisp channel settings, using defaults", { issues: formatConfigIssues(toConfigIssues(parsed.error)) });
+  return CrispChannelSettingsSchema.parse({});
+}
+
 /**
  * List available account IDs
  */
@@ -96,6 +174,31 @@ function listCrispAccountIds(cfg: Record<string, unknown>): string[] {
   return [];
 }
 
+/**
+ * Build the Telegram approval context for an account, if it has a bot and chat configured
+ */
+function buildTelegramApprovalContext(
+  cfg: Record<string, unknown>,
+  account: ResolvedCrispAccount
+): TelegramApprovalContext | null {
+  const { telegramBotToken, approvalChatId } = account.config;
+  if (!telegramBotToken || !approvalChatId) return null;
+
+  return {
+    botToken: telegramBotToken,
+    apiBaseUrl: account.config.telegramApiBaseUrl,
+    chatId: approvalChatId,
+    locale: account.config.locale,
+    resolveConfig: (accountId) => {
+      // Prefer the live config, so approvals follow reloads
+      const live = getAccountConfig(accountId);
+      if (live) return live;
+      const resolved = resolveCrispAccount({ cfg, accountId });
+      return resolved.configured ? resolved.config : null;
+    },
+  };
+}
+
 /**
  * The Crisp channel plugin
  */
@@ -144,6 +247,8 @@ export const crispPlugin = {
       enabled: account.enabled,
       configured: account.configured,
       baseUrl: account.baseUrl,
+      secrets: account.secretSources,
+      ...(account.configIssues.length > 0 ? { configIssues: account.configIssues } : {}),
     }),
   },
 
@@ -169,19 +274,16 @@ export const crispPlugin = {
       accountId?: string;
     }) => {
       const { cfg, to, text, accountId } = ctx;
-      const account = resolveCrispAccount({ cfg, accountId });
+      const account = resolveOutboundAccount(cfg, accountId);
 
       if (!account.configured) {
         return { channel: "crisp", ok: false, error: "Crisp not configured" };
       }
 
-      const client = createCrispClient({
-        apiKeyId: account.config.apiKeyId,
-        apiKeySecret: account.config.apiKeySecret,
-      });
+      const client = createCrispClientFromConfig(account.config);
 
       try {
-        const result = await client.sendMessage({
+        const result = await sendOwnMessage(client, {
           websiteId: account.config.websiteId,
           sessionId: to,
           content: text,
@@ -196,7 +298,7 @@ export const crispPlugin = {
         return {
           channel: "crisp",
           ok: false,
-          error: err instanceof Error ? err.message : String(err),
+          error: describeCrispError(err),
         };
       }
     },
@@ -208,23 +310,19 @@ export const crispPlugin = {
       accountId?: string;
     }) => {
       const { cfg, to, mediaUrl, accountId } = ctx;
-      const account = resolveCrispAccount({ cfg, accountId });
+      const account = resolveOutboundAccount(cfg, accountId);
 
       if (!account.configured) {
         return { channel: "crisp", ok: false, error: "Crisp not configured" };
       }
 
-      const client = createCrispClient({
-        apiKeyId: account.config.apiKeyId,
-        apiKeySecret: account.config.apiKeySecret,
-      });
+      const client = createCrispClientFromConfig(account.config);
 
       try {
-        const result = await client.sendMessage({
+        const result = await sendOwnMessage(client, {
           websiteId: account.config.websiteId,
           sessionId: to,
-          content: mediaUrl,
-          type: "file",
+          ...buildFileMessage({ url: mediaUrl }),
         });
 
         return {
@@ -236,7 +334,7 @@ export const crispPlugin = {
         return {
           channel: "crisp",
           ok: false,
-          error: err instanceof Error ? err.message : String(err),
+          error: describeCrispError(err),
         };
       }
     },
@@ -253,14 +351,14 @@ export const crispPlugin = {
 
     probeAccount: async (params: { account: ResolvedCrispAccount }) => {
       const { account } = params;
+      if (account.configIssues.length > 0) {
+        return { ok: false as const, error: `Invalid Crisp config: ${formatConfigIssues(account.configIssues)}` };
+      }
       if (!account.configured) {
         return { ok: false as const, error: "Crisp not configured" };
       }
 
-      const client = createCrispClient({
-        apiKeyId: account.config.apiKeyId,
-        apiKeySecret: account.config.apiKeySecret,
-      });
+      const client = createCrispClientFromConfig(account.config);
 
       return client.probeWebsite(account.config.websiteId);
     },
@@ -279,6 +377,18 @@ export const crispPlugin = {
         running: runtime?.running ?? false,
         connected: runtime?.running ?? false,
         lastStartAt: runtime?.lastStartAt ?? null,
+        secrets: account.secretSources,
+        configIssues: account.configIssues,
+        ...(account.configIssues.length > 0
+          ? { lastError: `Invalid config: ${formatConfigIssues(account.configIssues)}` }
+          : {}),
+        pausedSessions: listTakeovers(account.accountId).map((takeover) => ({
+          sessionId: takeover.sessionId,
+          reason: takeover.reason,
+          operator: takeover.operator,
+          pausedAt: takeover.pausedAt,
+          resumeAt: takeover.resumeAt,
+        })),
       };
     },
   },
@@ -295,67 +405,188 @@ export const crispPlugin = {
       const { account, runtime, setStatus } = ctx;
       const webhookPath = resolveWebhookPath(account.config);
 
+      // The gateway restarts accounts on reload; make the webhook handler follow
+      reloadCrispConfig(ctx.cfg);
+
       runtime.log?.info?.(`[crisp:${account.accountId}] Starting (webhook=${webhookPath})`);
 
+      // Owns the account's client, timers and loops until stopped
+      const accountRuntime = startAccountRuntime(account, { poll: pollTelegramApprovals });
+
       setStatus({
         accountId: account.accountId,
         baseUrl: account.baseUrl,
         running: true,
-        lastStartAt: Date.now(),
+        lastStartAt: accountRuntime.startedAt,
       });
 
-      // The actual webhook handling is done via registerHttpHandler
-      // This just marks the account as running
-
-      return {
-        stop: async () => {
+      let stopped: Promise<void> | null = null;
+      const stop = () => {
+        stopped ??= (async () => {
           runtime.log?.info?.(`[crisp:${account.accountId}] Stopping`);
-          setStatus({ running: false, lastStopAt: Date.now() });
-        },
+          const { drained, pending } = await stopAccountRuntime(account.accountId);
+          setStatus({
+            running: false,
+            lastStopAt: Date.now(),
+            ...(drained ? {} : { lastError: `Stopped with ${pending} message(s) still in flight` }),
+          });
+        })();
+        return stopped;
       };
+
+      if (ctx.abortSignal.aborted) {
+        await stop();
+      } else {
+        ctx.abortSignal.addEventListener("abort", () => void stop(), { once: true });
+      }
+
+      return { stop };
     },
   },
 };
 
-// Store config for HTTP handler access
-let storedClawdbotConfig: Record<string, unknown> | null = null;
+/**
+ * Long-poll Telegram for an account's approval decisions (`approvalUpdates: polling`)
+ */
+async function pollTelegramApprovals(account: ResolvedCrispAccount, signal: AbortSignal): Promise<void> {
+  if (account.config.approvalUpdates !== "polling") return;
+  const approvalCtx = buildTelegramApprovalContext(getConfigSnapshot()?.cfg ?? {}, account);
+  if (!approvalCtx) return;
 
-export function setClawdbotConfig(cfg: Record<string, unknown>): void {
-  storedClawdbotConfig = cfg;
+  log.info("Polling Telegram for approvals", { accountId: account.accountId });
+  await runTelegramPolling(approvalCtx, signal);
+}
+
+/**
+ * Apply a (re)loaded config: swap in the new account snapshot and drop state
+ * tied to accounts that changed
+ */
+export function reloadCrispConfig(cfg: Record<string, unknown>): ConfigSnapshot {
+  const { snapshot, previous, change } = applyAccountConfig(
+    cfg as ClawdbotConfig,
+    listCrispAccountIds(cfg).map((accountId) => resolveCrispAccount({ cfg, accountId }))
+  );
+  if (!hasConfigChanges(change)) return snapshot;
+
+  if (previous) {
+    log.info("Crisp config reloaded", { version: snapshot.version, ...change });
+  }
+
+  for (const accountId of [...change.added, ...change.changed]) {
+    const { configIssues } = snapshot.accounts.get(accountId)!.account;
+    if (configIssues.length > 0) {
+      log.error("Invalid Crisp account config", { accountId, issues: formatConfigIssues(configIssues) });
+    }
+  }
+
+  // Rebuild what was built from the old settings (queue, client, polling loop);
+  // conversation state only goes with the website it belongs to
+  for (const accountId of [...change.changed, ...change.removed]) {
+    const old = previous?.accounts.get(accountId)?.account.config;
+    const next = snapshot.accounts.get(accountId)?.account;
+    if (old?.websiteId) clearOperatorAvailability(old.websiteId);
+
+    const websiteChanged = !next || next.config.websiteId !== old?.websiteId;
+    resetAccountState(accountId, { websiteChanged });
+    if (websiteChanged) clearTakeovers(accountId);
+    if (next) updateAccountRuntime(next);
+  }
+
+  for (const issue of snapshot.routes.issues) {
+    log[issue.level]("Webhook route conflict", {
+      path: issue.path,
+      accountIds: issue.accountIds,
+      reason: issue.message,
+    });
+  }
+  return snapshot;
+}
+
+/**
+ * Answer a delivery for an account that is not started (or is stopping)
+ * with a 503, so the sender retries it later
+ */
+function rejectStoppedAccount(res: ServerResponse, accountId: string): true {
+  log.warn("Webhook for stopped account", { accountId });
+  res.writeHead(503, { "Content-Type": "application/json", "Retry-After": "30" });
+  res.end(JSON.stringify({ error: "Account not running" }));
+  return true;
 }
 
 /**
  * Create HTTP handler for Crisp webhooks
  */
 export function createCrispHttpHandler(cfg: Record<string, unknown>) {
-  // Store config for later use
-  setClawdbotConfig(cfg);
-  
+  reloadCrispConfig(cfg);
+
   return async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
-    // Find which account this webhook is for
-    const accountIds = listCrispAccountIds(cfg);
-    
-    for (const accountId of accountIds) {
-      const account = resolveCrispAccount({ cfg, accountId });
-      if (!account.configured || !account.enabled) continue;
+    // One snapshot per request: a reload mid-request does not mix configs
+    const snapshot = getConfigSnapshot();
+    if (!snapshot) return false;
+    const { routes, cfg: clawdbotCfg } = snapshot;
+
+    const url = new URL(req.url ?? "", `http://${req.headers.host}`);
+    const path = normalizeWebhookPath(url.pathname);
+
+    const telegramAccount = routes.telegram.get(path);
+    const approvalCtx = telegramAccount
+      ? buildTelegramApprovalContext(clawdbotCfg, telegramAccount)
+      : null;
+    if (telegramAccount && approvalCtx) {
+      if (!isAccountRunning(telegramAccount.accountId)) return rejectStoppedAccount(res, telegramAccount.accountId);
+      return handleTelegramWebhookRequest(req, res, telegramAccount.config, approvalCtx);
+    }
 
-      const webhookPath = resolveWebhookPath(account.config);
-      const url = new URL(req.url ?? "", `http://${req.headers.host}`);
-      
-      if (url.pathname.startsWith(webhookPath)) {
-        // Pass both Crisp config and Clawdbot config
-        const clawdbotCfg = storedClawdbotConfig ?? cfg;
-        return handleCrispWebhookRequest(
-          req, 
-          res, 
-          account.config, 
-          clawdbotCfg as import("clawdbot/plugin-sdk").ClawdbotConfig,
-          accountId
-        );
+    const accounts = routes.crisp.get(path);
+    if (!accounts) return false;
+
+    if (accounts.length === 1) {
+      const [account] = accounts;
+      if (!isAccountRunning(account.accountId)) return rejectStoppedAccount(res, account.accountId);
+      return handleCrispWebhookRequest(req, res, account.config, clawdbotCfg, account.accountId);
+    }
+
+    // Shared endpoint: dispatch on the website the delivery is for
+    if (req.method !== "POST") return false;
+
+    // Narrow down without the body first: by header, else by the ?secret= query
+    const header = req.headers["x-crisp-website-id"];
+    let websiteId = typeof header === "string" ? header : undefined;
+    let candidates = websiteId
+      ? accounts.filter((account) => account.config.websiteId === websiteId)
+      : filterWebhookAccountsBySecret(accounts, url.searchParams.get("secret"));
+
+    // Only ambiguous deliveries are read (capped) before authentication
+    let rawBody: string | undefined;
+    if (candidates.length > 1) {
+      try {
+        rawBody = await readRawBody(req);
+      } catch (err) {
+        if (!(err instanceof WebhookBodyTooLargeError)) throw err;
+        res.writeHead(413, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Payload too large" }));
+        return true;
       }
+      try {
+        websiteId = (JSON.parse(rawBody) as { website_id?: string }).website_id;
+      } catch {
+        // Unroutable; answered below
+      }
+      const selected = selectWebhookAccount(candidates, websiteId);
+      candidates = selected ? [selected] : [];
+    }
+
+    const [account] = candidates;
+    if (!account) {
+      // Same answer as a failed authentication: do not reveal which websites are routed
+      log.warn("Webhook for unknown website", { path, websiteId });
+      res.writeHead(401, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Unauthorized" }));
+      return true;
     }
+    if (!isAccountRunning(account.accountId)) return rejectStoppedAccount(res, account.accountId);
 
-    return false;
+    return handleCrispWebhookRequest(req, res, account.config, clawdbotCfg, account.accountId, rawBody);
   };
 }
 
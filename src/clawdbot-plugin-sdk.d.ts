@@ -54,12 +54,13 @@ declare module "clawdbot/plugin-sdk" {
         }): Promise<{ code: string; created: boolean }>;
       };
       media: {
-        fetchRemoteMedia(params: { url: string }): Promise<{ buffer: Buffer; contentType?: string }>;
+        fetchRemoteMedia(params: { url: string; maxBytes?: number; filePathHint?: string }): Promise<{ buffer: Buffer; contentType?: string; fileName?: string }>;
         saveMediaBuffer(
           buffer: Uint8Array,
           contentType: string | undefined,
           direction: "inbound" | "outbound",
-          maxBytes: number
+          maxBytes: number,
+          originalFilename?: string
         ): Promise<{ path: string; contentType?: string }>;
       };
       session: {
@@ -78,19 +79,97 @@ declare module "clawdbot/plugin-sdk" {
           accountId?: string;
         }): boolean;
       };
+      telegram: {
+        sendMessageTelegram(to: string, text: string, opts?: { accountId?: string }): Promise<{ messageId: string; chatId: string }>;
+      };
+      discord: {
+        sendMessageDiscord(to: string, text: string, opts?: { accountId?: string }): Promise<unknown>;
+      };
+      slack: {
+        sendMessageSlack(to: string, text: string, opts?: { accountId?: string }): Promise<unknown>;
+      };
+      signal: {
+        sendMessageSignal(to: string, text: string, opts?: { accountId?: string }): Promise<unknown>;
+      };
+      imessage: {
+        sendMessageIMessage(to: string, text: string, opts?: { accountId?: string }): Promise<unknown>;
+      };
+      whatsapp: {
+        sendMessageWhatsApp(to: string, text: string, opts: { verbose: boolean; accountId?: string }): Promise<unknown>;
+      };
     };
     logging: {
       shouldLogVerbose(): boolean;
+      getChildLogger(
+        bindings?: Record<string, unknown>,
+        opts?: { level?: "debug" | "info" | "warn" | "error" }
+      ): RuntimeLogger;
+    };
+    state: {
+      resolveStateDir(): string;
     };
     system: {
       enqueueSystemEvent(message: string, params: { sessionKey: string; contextKey?: string }): void;
     };
   }
 
+  export interface RuntimeLogger {
+    debug?(message: string, meta?: Record<string, unknown>): void;
+    info(message: string, meta?: Record<string, unknown>): void;
+    warn(message: string, meta?: Record<string, unknown>): void;
+    error(message: string, meta?: Record<string, unknown>): void;
+  }
+
+  export interface PluginCommandContext {
+    senderId?: string;
+    channel: string;
+    isAuthorizedSender: boolean;
+    args?: string;
+    commandBody: string;
+    config: ClawdbotConfig;
+  }
+
+  export interface PluginCommand {
+    name: string;
+    description: string;
+    acceptsArgs?: boolean;
+    requireAuth?: boolean;
+    handler(ctx: PluginCommandContext): { text: string } | Promise<{ text: string }>;
+  }
+
+  export interface PluginToolContext {
+    config?: ClawdbotConfig;
+    workspaceDir?: string;
+    agentDir?: string;
+    agentId?: string;
+    sessionKey?: string;
+    messageChannel?: string;
+    agentAccountId?: string;
+    sandboxed?: boolean;
+  }
+
+  export interface PluginTool<TParams = unknown> {
+    name: string;
+    label?: string;
+    description: string;
+    parameters: Record<string, unknown>;
+    execute(
+      toolCallId: string,
+      params: TParams
+    ): Promise<{ content: Array<{ type: "text"; text: string }>; details?: unknown }>;
+  }
+
+  export type PluginToolFactory = (ctx: PluginToolContext) => PluginTool | PluginTool[] | null | undefined;
+
   export interface ClawdbotPluginApi {
     runtime: PluginRuntime;
     config: ClawdbotConfig;
     registerChannel(opts: { plugin: unknown }): void;
+    registerCommand(command: PluginCommand): void;
+    registerTool(
+      tool: PluginTool | PluginToolFactory,
+      opts?: { name?: string; names?: string[]; optional?: boolean }
+    ): void;
     registerHttpHandler(
       handler: (
         req: import("node:http").IncomingMessage,
@@ -0,0 +1,88 @@
+/**
+ * Crisp Chat Commands
+ *
+ * Operator commands to pause or resume auto-replies for a conversation.
+ * Only authorized senders may run them.
+ */
+
+import type { PluginCommand } from "clawdbot/plugin-sdk";
+import { listTakeovers, pauseSession, resumeSession } from "./takeover.js";
+import { getAccountConfig, getConfigSnapshot } from "./account-registry.js";
+import { t, type Locale } from "./i18n.js";
+
+const DEFAULT_ACCOUNT_ID = "default";
+
+function parseArgs(args: string | undefined): { sessionId?: string; accountId?: string } {
+  const [sessionId, accountId] = (args ?? "").trim().split(/\s+/).filter(Boolean);
+  return { sessionId, accountId };
+}
+
+/**
+ * Account a command without an account argument applies to
+ */
+function defaultAccountId(): string {
+  const first = getConfigSnapshot()?.accounts.keys().next();
+  return first && !first.done ? first.value : DEFAULT_ACCOUNT_ID;
+}
+
+function isKnownAccount(accountId: string): boolean {
+  return getConfigSnapshot()?.accounts.has(accountId) ?? false;
+}
+
+function resolveLocale(accountId: string): Locale | undefined {
+  return getAccountConfig(accountId)?.locale;
+}
+
+export const crispCommands: PluginCommand[] = [
+  {
+    name: "crisp-pause",
+    description: "Stop Crisp auto-replies for a conversation: /crisp-pause <session_id> [account]",
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: (ctx) => {
+      const args = parseArgs(ctx.args);
+      const accountId = args.accountId ?? defaultAccountId();
+      const locale = resolveLocale(accountId);
+      if (!args.sessionId) {
+        return { text: t(locale, "commands.pauseUsage") };
+      }
+      if (!isKnownAccount(accountId)) {
+        return { text: t(locale, "commands.unknownAccount", { accountId }) };
+      }
+
+      pauseSession({ accountId, sessionId: args.sessionId, reason: "manual", cooldownMs: null });
+      return { text: t(locale, "commands.paused", { sessionId: args.sessionId }) };
+    },
+  },
+  {
+    name: "crisp-resume",
+    description: "Resume Crisp auto-replies for a conversation: /crisp-resume <session_id> [account]",
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: (ctx) => {
+      const { sessionId, accountId } = parseArgs(ctx.args);
+      const locale = resolveLocale(accountId ?? defaultAccountId());
+      if (!sessionId) {
+        const paused = listTakeovers();
+        if (paused.length === 0) {
+          return { text: `${t(locale, "commands.resumeUsage")} ${t(locale, "commands.nonePaused")}` };
+        }
+        return {
+          text: `${t(locale, "commands.resumeUsage")}\n` + t(locale, "commands.pausedList", {
+            sessions: paused
+              .map((takeover) => `${takeover.sessionId} [${takeover.accountId}] (${takeover.reason})`)
+              .join(", "),
+          }),
+        };
+      }
+      if (accountId && !isKnownAccount(accountId)) {
+        return { text: t(locale, "commands.unknownAccount", { accountId }) };
+      }
+
+      // Without an account argument, the session ID alone identifies the takeover
+      return resumeSession(sessionId, accountId)
+        ? { text: t(locale, "commands.resumed", { sessionId }) }
+        : { text: t(locale, "commands.notPaused", { sessionId }) };
+    },
+  },
+];
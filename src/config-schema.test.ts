@@ -0,0 +1,133 @@
+import fs from "node:fs";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { buildCrispConfigJsonSchema, formatConfigIssues, toConfigIssues, zodToJsonSchema } from "./config-schema.js";
+import { secretString } from "./secrets.js";
+import { CrispConfigSchema } from "./types.js";
+
+describe("zodToJsonSchema", () => {
+  it("converts string and number checks", () => {
+    expect(zodToJsonSchema(z.string().min(1).max(10).regex(/^a+$/))).toEqual({
+      type: "string",
+      minLength: 1,
+      maxLength: 10,
+      pattern: "^a+$",
+    });
+    expect(zodToJsonSchema(z.string().uuid())).toEqual({ type: "string", format: "uuid" });
+    expect(zodToJsonSchema(z.string().url())).toEqual({ type: "string", format: "uri" });
+    expect(zodToJsonSchema(z.number().int().min(0).max(50))).toEqual({ type: "integer", minimum: 0, maximum: 50 });
+    expect(zodToJsonSchema(z.number().gt(1))).toEqual({ type: "number", exclusiveMinimum: 1 });
+  });
+
+  it("converts enums, literals, unions, arrays and records", () => {
+    expect(zodToJsonSchema(z.enum(["a", "b"]))).toEqual({ type: "string", enum: ["a", "b"] });
+    expect(zodToJsonSchema(z.literal(3))).toEqual({ const: 3 });
+    expect(zodToJsonSchema(z.union([z.string(), z.boolean()]))).toEqual({
+      anyOf: [{ type: "string" }, { type: "boolean" }],
+    });
+    expect(zodToJsonSchema(z.array(z.string()).min(1).max(3))).toEqual({
+      type: "array",
+      items: { type: "string" },
+      minItems: 1,
+      maxItems: 3,
+    });
+    expect(zodToJsonSchema(z.record(z.number()))).toEqual({
+      type: "object",
+      additionalProperties: { type: "number" },
+    });
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({ anyOf: [{ type: "string" }, { type: "null" }] });
+  });
+
+  it("marks only settings without a default as required", () => {
+    const schema = z.object({
+      id: z.string(),
+      name: z.string().optional(),
+      enabled: z.boolean().default(true),
+      checked: z.string().refine((value) => value.length > 0),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        name: { type: "string" },
+        enabled: { type: "boolean", default: true },
+        checked: { type: "string" },
+      },
+      required: ["id", "checked"],
+      additionalProperties: false,
+    });
+  });
+
+  it("accepts references or literals for secrets", () => {
+    expect(zodToJsonSchema(secretString(z.string().min(16)).optional())).toEqual({
+      anyOf: [
+        { type: "string", pattern: "^(env|file):(.+)$" },
+        { type: "string", minLength: 16 },
+      ],
+    });
+  });
+
+  it("falls back to an open schema for unsupported types", () => {
+    expect(zodToJsonSchema(z.date())).toEqual({});
+  });
+});
+
+describe("buildCrispConfigJsonSchema", () => {
+  const schema = buildCrispConfigJsonSchema() as {
+    properties: Record<string, Record<string, unknown>>;
+    anyOf: Array<{ required?: string[]; maxProperties?: number }>;
+  };
+
+  it("describes every config setting", () => {
+    expect(Object.keys(schema.properties)).toEqual([...Object.keys(CrispConfigSchema.innerType().shape), "accounts"]);
+    expect(schema.properties.debounceMs).toEqual({ type: "integer", minimum: 0, maximum: 60_000, default: 0 });
+  });
+
+  it("requires credentials at the top level or per account, unless the section is empty", () => {
+    expect(schema.anyOf).toEqual([
+      { maxProperties: 0 },
+      { required: ["websiteId", "apiKeyId", "apiKeySecret"] },
+      { required: ["accounts"] },
+    ]);
+  });
+
+  it("is the schema of the plugin manifest", () => {
+    const manifest = JSON.parse(fs.readFileSync(new URL("../clawdbot.plugin.json", import.meta.url), "utf8"));
+    // Run `npm run manifest` after changing the config schema
+    expect(manifest.configSchema).toEqual(JSON.parse(JSON.stringify(schema)));
+  });
+
+  it("keeps channel-level settings out of account overrides", () => {
+    const accountSchema = schema.properties.accounts.additionalProperties as { properties: Record<string, unknown> };
+    expect(accountSchema.properties).toHaveProperty("websiteId");
+    expect(accountSchema.properties).not.toHaveProperty("pendingStore");
+    expect(accountSchema.properties).not.toHaveProperty("pendingReplyTtlMinutes");
+  });
+});
+
+describe("config issues", () => {
+  it("flattens and formats zod issues", () => {
+    const parsed = CrispConfigSchema.safeParse({ websiteId: "not-a-uuid", apiKeyId: "key", apiKeySecret: "secret" });
+    expect(parsed.success).toBe(false);
+    if (parsed.success) return;
+
+    const issues = toConfigIssues(parsed.error);
+    expect(issues).toContainEqual({ path: "websiteId", message: "Invalid uuid" });
+    expect(formatConfigIssues(issues)).toContain("websiteId: Invalid uuid");
+  });
+
+  it("points at the template and locale that fail to parse", () => {
+    const parsed = CrispConfigSchema.safeParse({
+      websiteId: "11111111-1111-4111-8111-111111111111",
+      apiKeyId: "key",
+      apiKeySecret: "secret",
+      webhookSecret: "config-webhook-secret",
+      greetingMessage: { default: "Hello {name}", fr: "Bonjour {#if name}{name}" },
+    });
+    expect(parsed.success).toBe(false);
+    if (parsed.success) return;
+
+    expect(toConfigIssues(parsed.error)).toEqual([{ path: "greetingMessage.fr", message: "Unclosed {#if name}" }]);
+  });
+});
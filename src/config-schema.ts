@@ -0,0 +1,147 @@
+/**
+ * Config JSON Schema
+ *
+ * JSON Schema of the `channels.crisp` section, generated from CrispConfigSchema
+ * so the host can validate and autocomplete it. Cross-field rules and template
+ * syntax only exist as zod refinements; they are checked when accounts are
+ * resolved and reported through the account status.
+ */
+
+import { z } from "zod";
+import { CHANNEL_LEVEL_SETTINGS, CrispConfigSchema, type CrispConfigIssue } from "./types.js";
+import { getSecretLiteral, SECRET_REF_PATTERN } from "./secrets.js";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Flatten zod issues for status output
+ */
+export function toConfigIssues(error: z.ZodError): CrispConfigIssue[] {
+  return error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+}
+
+/**
+ * One-line summary of config issues
+ */
+export function formatConfigIssues(issues: CrispConfigIssue[]): string {
+  return issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; ");
+}
+
+function stringSchema(def: z.ZodStringDef): JsonSchema {
+  const schema: JsonSchema = { type: "string" };
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case "min":
+        schema.minLength = check.value;
+        break;
+      case "max":
+        schema.maxLength = check.value;
+        break;
+      case "uuid":
+        schema.format = "uuid";
+        break;
+      case "url":
+        schema.format = "uri";
+        break;
+      case "regex":
+        schema.pattern = check.regex.source;
+        break;
+    }
+  }
+  return schema;
+}
+
+function numberSchema(def: z.ZodNumberDef): JsonSchema {
+  const schema: JsonSchema = { type: "number" };
+  for (const check of def.checks) {
+    if (check.kind === "int") schema.type = "integer";
+    if (check.kind === "min") schema[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    if (check.kind === "max") schema[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+  }
+  return schema;
+}
+
+/**
+ * Convert the zod types used by the config schemas (unknown types become `{}`)
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const secretLiteral = getSecretLiteral(schema);
+  if (secretLiteral) {
+    return { anyOf: [{ type: "string", pattern: SECRET_REF_PATTERN.source }, zodToJsonSchema(secretLiteral)] };
+  }
+
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodNullable) return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: "null" }] };
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodString) return stringSchema(schema._def);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema._def);
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: [...schema.options] };
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map((option) => zodToJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: "array", items: zodToJsonSchema(schema.element) };
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+    return result;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: false,
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Schema of `channels.crisp`: one account at the top level, or shared
+ * defaults plus per-account overrides under `accounts` (channel-level
+ * settings cannot be overridden)
+ */
+export function buildCrispConfigJsonSchema(): JsonSchema {
+  const { required = [], properties, ...account } = zodToJsonSchema(CrispConfigSchema) as JsonSchema & {
+    required?: string[];
+    properties: Record<string, JsonSchema>;
+  };
+
+  const accountProperties = Object.fromEntries(
+    Object.entries(properties).filter(([key]) => !(CHANNEL_LEVEL_SETTINGS as readonly string[]).includes(key))
+  );
+
+  return {
+    ...account,
+    properties: {
+      ...properties,
+      accounts: {
+        type: "object",
+        description: "Per-account overrides of the top-level settings, keyed by account ID",
+        additionalProperties: { ...account, properties: accountProperties },
+      },
+    },
+    // Required settings may come from the top level or from each account; an
+    // empty section is valid too (the plugin is installed but not set up yet)
+    anyOf: [{ maxProperties: 0 }, { required }, { required: ["accounts"] }],
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Crisp Dashboard Links
+ */
+
+export function buildCrispDashboardUrl(websiteId: string, sessionId: string): string {
+  return `https://app.crisp.chat/website/${websiteId}/inbox/${sessionId}`;
+}
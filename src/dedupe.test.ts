@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildMessageDedupeKey, createDedupeCache } from "./dedupe.js";
+
+describe("createDedupeCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports a key as seen from its second check", () => {
+    const cache = createDedupeCache({ maxEntries: 10, ttlMs: 60_000 });
+    expect(cache.check("a")).toBe(false);
+    expect(cache.check("a")).toBe(true);
+    expect(cache.has("a")).toBe(true);
+    expect(cache.has("b")).toBe(false);
+  });
+
+  it("forgets keys after the TTL", () => {
+    vi.useFakeTimers();
+    const cache = createDedupeCache({ maxEntries: 10, ttlMs: 1_000 });
+    cache.check("a");
+    vi.advanceTimersByTime(1_001);
+    expect(cache.has("a")).toBe(false);
+    expect(cache.check("a")).toBe(false);
+  });
+
+  it("evicts the least recently used key when full", () => {
+    const cache = createDedupeCache({ maxEntries: 2, ttlMs: 60_000 });
+    cache.check("a");
+    cache.check("b");
+    // Seeing "a" again makes "b" the oldest
+    cache.check("a");
+    cache.check("c");
+
+    expect(cache.size).toBe(2);
+    expect(cache.has("a")).toBe(true);
+    expect(cache.has("b")).toBe(false);
+    expect(cache.has("c")).toBe(true);
+  });
+
+  it("clears every key", () => {
+    const cache = createDedupeCache({ maxEntries: 10, ttlMs: 60_000 });
+    cache.check("a");
+    cache.clear();
+    expect(cache.size).toBe(0);
+    expect(cache.check("a")).toBe(false);
+  });
+});
+
+describe("buildMessageDedupeKey", () => {
+  it("keys on account, session, fingerprint and variant", () => {
+    expect(buildMessageDedupeKey("main", "session_1", 42)).toBe("main:session_1:42");
+    expect(buildMessageDedupeKey("main", "session_1", 42, "updated")).toBe("main:session_1:42:updated");
+  });
+
+  it("returns null without a fingerprint", () => {
+    expect(buildMessageDedupeKey("main", "session_1", undefined)).toBeNull();
+  });
+});
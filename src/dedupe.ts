@@ -0,0 +1,90 @@
+/**
+ * Webhook Deduplication
+ *
+ * Bounded LRU of recently seen delivery keys, so Crisp redeliveries of the
+ * same message are only processed once.
+ */
+
+export interface DedupeCache {
+  /**
+   * Record a key; returns true if it was already seen within the TTL
+   */
+  check(key: string): boolean;
+
+  /**
+   * Whether a key was seen within the TTL (does not record it)
+   */
+  has(key: string): boolean;
+
+  /**
+   * Forget all keys
+   */
+  clear(): void;
+
+  readonly size: number;
+}
+
+export interface DedupeCacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+}
+
+/**
+ * Create a dedupe cache (Map insertion order doubles as LRU order)
+ */
+export function createDedupeCache(opts: DedupeCacheOptions): DedupeCache {
+  const { maxEntries, ttlMs } = opts;
+  const entries = new Map<string, number>();
+
+  return {
+    check(key: string) {
+      const now = Date.now();
+      const seenAt = entries.get(key);
+
+      if (seenAt !== undefined && now - seenAt <= ttlMs) {
+        // Refresh recency
+        entries.delete(key);
+        entries.set(key, seenAt);
+        return true;
+      }
+
+      entries.delete(key);
+      entries.set(key, now);
+
+      // Evict least recently used entries
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+
+      return false;
+    },
+
+    has(key: string) {
+      const seenAt = entries.get(key);
+      return seenAt !== undefined && Date.now() - seenAt <= ttlMs;
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+/**
+ * Build the dedup key for a Crisp message delivery
+ */
+export function buildMessageDedupeKey(
+  accountId: string,
+  sessionId: string,
+  fingerprint: number | undefined,
+  variant?: string
+): string | null {
+  if (fingerprint === undefined || fingerprint === null) return null;
+  const key = `${accountId}:${sessionId}:${fingerprint}`;
+  return variant ? `${key}:${variant}` : key;
+}
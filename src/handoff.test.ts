@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createCrispClient } from "./api-client.js";
+import { extractHandoffMarker, matchHandoffKeyword, performHandoff } from "./handoff.js";
+import { clearTakeovers, getTakeoverState } from "./takeover.js";
+import { CrispConfigSchema } from "./types.js";
+import { createFakeCrispServer, type FakeCrispServer } from "../test/fake-crisp-server.js";
+
+const cleanups: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  while (cleanups.length > 0) await cleanups.pop()!();
+});
+
+async function startCrisp(): Promise<FakeCrispServer> {
+  const crisp = createFakeCrispServer();
+  await crisp.listen();
+  cleanups.push(() => crisp.close(), () => clearTakeovers("default"));
+  return crisp;
+}
+
+function handoff(crisp: FakeCrispServer, sessionId: string, settings: Record<string, unknown> = {}) {
+  const config = CrispConfigSchema.parse({
+    websiteId: crisp.websiteId,
+    apiKeyId: "key",
+    apiKeySecret: "secret",
+    webhookSecret: "handoff-webhook-secret",
+    ...settings,
+  });
+  const client = createCrispClient({ apiKeyId: "key", apiKeySecret: "secret", baseUrl: crisp.baseUrl, fetch: crisp.fetch });
+
+  return performHandoff({
+    client,
+    config,
+    accountId: "default",
+    websiteId: crisp.websiteId,
+    sessionId,
+    reason: "",
+    trigger: "tool",
+  });
+}
+
+describe("matchHandoffKeyword", () => {
+  it("matches whole words, ignoring case", () => {
+    expect(matchHandoffKeyword("Can I talk to a HUMAN please?", ["agent", "human"])).toBe("human");
+    expect(matchHandoffKeyword("I want a remboursement", ["remboursement"])).toBe("remboursement");
+    expect(matchHandoffKeyword("That's inhuman", ["human"])).toBeNull();
+    expect(matchHandoffKeyword("anything", [" "])).toBeNull();
+  });
+});
+
+describe("extractHandoffMarker", () => {
+  it("strips the marker and keeps its reason", () => {
+    expect(extractHandoffMarker("Let me get a colleague.\n\n\n[[ handoff: refund request ]]")).toEqual({
+      text: "Let me get a colleague.",
+      reason: "refund request",
+    });
+    expect(extractHandoffMarker("[[HANDOFF]] One moment")).toEqual({ text: "One moment", reason: "" });
+    expect(extractHandoffMarker("No marker here")).toEqual({ text: "No marker here", reason: null });
+  });
+});
+
+describe("performHandoff", () => {
+  it("routes, tags, notes and reopens the conversation", async () => {
+    const crisp = await startCrisp();
+    crisp.createConversation({ sessionId: "session_handoff" });
+
+    expect(await handoff(crisp, "session_handoff", { handoffSegment: "vip" })).toEqual({ ok: true, errors: [] });
+
+    const conversation = crisp.getConversation("session_handoff")!;
+    expect(conversation.meta.segments).toEqual(["vip"]);
+    expect(conversation.state).toBe("unresolved");
+    expect(crisp.getMessages("session_handoff")).toEqual([
+      expect.objectContaining({ type: "note", content: "🙋 Handoff to a human (tool): Requested by the assistant" }),
+    ]);
+    expect(crisp.requests).toContainEqual(expect.objectContaining({ method: "POST", path: expect.stringMatching(/\/routing$/) }));
+    expect(getTakeoverState("session_handoff")).toEqual(expect.objectContaining({ reason: "handoff", resumeAt: null }));
+  });
+
+  it("assigns the configured operator", async () => {
+    const crisp = await startCrisp();
+    crisp.createConversation({ sessionId: "session_assign" });
+
+    await handoff(crisp, "session_assign", { handoffOperatorId: "operator_olivia" });
+
+    expect(crisp.requests).toContainEqual(
+      expect.objectContaining({ method: "PATCH", path: expect.stringMatching(/\/routing$/), body: { assigned: { user_id: "operator_olivia" } } })
+    );
+  });
+
+  it("still pauses the bot when Crisp calls fail", async () => {
+    const crisp = await startCrisp();
+
+    const result = await handoff(crisp, "session_unknown");
+
+    expect(result.ok).toBe(false);
+    expect(result.errors.map((error) => error.split(":")[0])).toEqual(["routing", "segment", "note", "state"]);
+    expect(getTakeoverState("session_unknown")).toEqual(expect.objectContaining({ reason: "handoff" }));
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Human Handoff
+ *
+ * Escalates a conversation to a human: assigns or routes it in Crisp, tags it
+ * with a segment, leaves an internal note, marks it unresolved and stops
+ * auto-replies. Triggered by visitor keywords, a `[[handoff]]` marker in the
+ * agent reply, or the `crisp_handoff` agent tool.
+ */
+
+import type { PluginTool, PluginToolContext } from "clawdbot/plugin-sdk";
+import type { CrispConfig } from "./types.js";
+import { createCrispClientFromConfig, type CrispApiClient } from "./api-client.js";
+import { getAccountConfig } from "./account-registry.js";
+import {
+  pauseSession,
+  recordOutgoingMessage,
+  recordOwnFingerprint,
+} from "./takeover.js";
+import { sendTemplateMessage } from "./templates.js";
+import { t } from "./i18n.js";
+import { log, logBody } from "./logger.js";
+
+export type HandoffTrigger = "keyword" | "marker" | "tool";
+
+export interface HandoffResult {
+  ok: boolean;
+  /** Steps that failed (the handoff still pauses the bot) */
+  errors: string[];
+}
+
+/**
+ * Crisp conversation an agent session is currently serving (for the tool)
+ */
+interface HandoffSession {
+  config: CrispConfig;
+  accountId: string;
+  websiteId: string;
+  sessionId: string;
+}
+
+const HANDOFF_MARKER_PATTERN = /\[\[\s*handoff(?:\s*:\s*([^\]]*))?\s*\]\]/i;
+const SESSION_REGISTRY_LIMIT = 1000;
+
+// Agent session key -> Crisp conversation
+const agentSessions = new Map<string, HandoffSession>();
+
+/**
+ * Remember which Crisp conversation an agent session belongs to
+ */
+export function registerHandoffSession(sessionKey: string, session: HandoffSession): void {
+  agentSessions.delete(sessionKey);
+  agentSessions.set(sessionKey, session);
+
+  if (agentSessions.size > SESSION_REGISTRY_LIMIT) {
+    const oldest = agentSessions.keys().next().value as string;
+    agentSessions.delete(oldest);
+  }
+}
+
+/**
+ * Find the first configured keyword in a visitor message
+ */
+export function matchHandoffKeyword(text: string, keywords: string[]): string | null {
+  for (const keyword of keywords) {
+    const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    if (!escaped) continue;
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "iu").test(text)) {
+      return keyword;
+    }
+  }
+  return null;
+}
+
+/**
+ * Strip a `[[handoff]]` / `[[handoff: reason]]` marker from an agent reply
+ * (reason is null without a marker, empty for a bare marker)
+ */
+export function extractHandoffMarker(text: string): { text: string; reason: string | null } {
+  const match = HANDOFF_MARKER_PATTERN.exec(text);
+  if (!match) return { text, reason: null };
+
+  return {
+    text: text.replace(HANDOFF_MARKER_PATTERN, "").replace(/\n{3,}/g, "\n\n").trim(),
+    reason: match[1]?.trim() ?? "",
+  };
+}
+
+/**
+ * Hand a conversation over to a human operator
+ */
+export async function performHandoff(params: {
+  client: CrispApiClient;
+  config: CrispConfig;
+  accountId: string;
+  websiteId: string;
+  sessionId: string;
+  reason: string;
+  trigger: HandoffTrigger;
+}): Promise<HandoffResult> {
+  const { client, config, accountId, websiteId, sessionId, trigger } = params;
+  const reason = params.reason || t(config.locale, "handoff.defaultReason");
+  const errors: string[] = [];
+
+  // Stop auto-replies first so nothing races the human
+  pauseSession({ accountId, sessionId, reason: "handoff", cooldownMs: null });
+
+  const step = async (name: string, run: () => Promise<unknown>) => {
+    try {
+      await run();
+    } catch (err) {
+      errors.push(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  await step("routing", () =>
+    config.handoffOperatorId
+      ? client.assignConversation(websiteId, sessionId, config.handoffOperatorId)
+      : client.routeConversation(websiteId, sessionId)
+  );
+
+  await step("segment", () =>
+    client.addSegments(websiteId, sessionId, [config.handoffSegment ?? "needs-human"])
+  );
+
+  await step("note", async () => {
+    const note = t(config.locale, "handoff.note", { trigger, reason });
+    recordOutgoingMessage(sessionId, note);
+    const { fingerprint } = await client.postNote(websiteId, sessionId, note);
+    recordOwnFingerprint(fingerprint);
+  });
+
+  await step("state", () => client.updateConversationState(websiteId, sessionId, "unresolved"));
+
+  if (config.handoffMessage) {
+    await step("confirmation", () =>
+      sendTemplateMessage({ client, config, template: config.handoffMessage!, websiteId, sessionId })
+    );
+  }
+
+  const sessionLog = log.child({ accountId, sessionId });
+  if (errors.length > 0) {
+    sessionLog.warn("Handoff incomplete", { trigger, errors });
+  } else {
+    sessionLog.info("Handed conversation to a human", { trigger, reason: logBody(reason) });
+  }
+
+  return { ok: errors.length === 0, errors };
+}
+
+/**
+ * Agent tool factory: `crisp_handoff` is only offered in Crisp sessions
+ */
+export function createHandoffTool(ctx: PluginToolContext): PluginTool<{ reason?: string }> | null {
+  if (ctx.messageChannel && ctx.messageChannel !== "crisp") return null;
+
+  return {
+    name: "crisp_handoff",
+    label: "Crisp Handoff",
+    description:
+      "Hand the current Crisp conversation to a human operator when you cannot help " +
+      "(billing disputes, refunds, explicit requests for a person). Stops your auto-replies.",
+    parameters: {
+      type: "object",
+      properties: {
+        reason: {
+          type: "string",
+          description: "Why a human is needed (shown to operators as an internal note)",
+        },
+      },
+      required: ["reason"],
+    },
+    execute: async (_toolCallId: string, params: { reason?: string }) => {
+      const session = ctx.sessionKey ? agentSessions.get(ctx.sessionKey) : undefined;
+      // The config may have been reloaded since the conversation was registered
+      const config = session ? getAccountConfig(session.accountId) ?? session.config : undefined;
+      const result = session && config
+        ? await performHandoff({
+            client: createCrispClientFromConfig(config),
+            config,
+            accountId: session.accountId,
+            websiteId: session.websiteId,
+            sessionId: session.sessionId,
+            reason: params.reason?.trim() ?? "",
+            trigger: "tool",
+          })
+        : { ok: false, errors: ["No active Crisp conversation for this session"] };
+
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result) }],
+        details: result,
+      };
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { LOCALES, localizedTemplate, matchLocale, t } from "./i18n.js";
+import { validateTemplate } from "./template-syntax.js";
+
+const placeholders = (text: string) => Array.from(text.matchAll(/\{(\w+)\}/g), (match) => match[1]).sort();
+
+describe("t", () => {
+  it("fills placeholders and keeps unknown ones", () => {
+    expect(t("fr", "commands.resumed", { sessionId: "session_1" })).toBe("▶️ Réponses automatiques reprises pour session_1");
+    expect(t(undefined, "approval.ignoredBy")).toBe("❌ Ignored by {actor}");
+  });
+
+  it("keeps the placeholders in every translation", () => {
+    for (const locale of LOCALES) {
+      for (const key of ["approval.title", "approval.sentBy", "handoff.note", "commands.pausedList"] as const) {
+        expect(t(locale, key), `${locale} ${key}`).not.toBe("");
+        expect(placeholders(t(locale, key)), `${locale} ${key}`).toEqual(placeholders(t("en", key)));
+      }
+    }
+  });
+});
+
+describe("matchLocale", () => {
+  it("maps browser tags to supported locales", () => {
+    expect(matchLocale("fr-CA")).toBe("fr");
+    expect(matchLocale("DE_at")).toBe("de");
+    expect(matchLocale("pt-BR")).toBeNull();
+    expect(matchLocale(undefined)).toBeNull();
+  });
+});
+
+describe("localizedTemplate", () => {
+  it("builds a valid visitor template with an English default", () => {
+    const template = localizedTemplate("visitor.autoReply");
+
+    expect(template.default).toBe(t("en", "visitor.autoReply"));
+    expect(validateTemplate(template)).toEqual([]);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Localized Strings
+ *
+ * Every operator-facing string the plugin emits (Telegram approvals,
+ * notifications, commands, notes) plus the built-in visitor-facing defaults.
+ * The operator language is the account `locale`; visitor messages follow the
+ * visitor's browser language.
+ */
+
+export const LOCALES = ["en", "fr", "es", "de"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const en = {
+  "approval.title": "New Crisp message",
+  "approval.draft": "Draft",
+  "approval.draftHint": "Send the draft, reply to this message with your edited version, or ignore.",
+  "approval.replyHint": "Reply to this message to send your answer, or ignore.",
+  "approval.sendAsIs": "✅ Send as is",
+  "approval.edit": "✏️ Edit",
+  "approval.reply": "✅ Reply",
+  "approval.ignore": "❌ Ignore",
+  "approval.notAllowed": "Not allowed from this chat",
+  "approval.alreadyHandled": "Already handled or expired",
+  "approval.expired": "⌛ Expired or already handled",
+  "approval.ignored": "Ignored",
+  "approval.ignoredBy": "❌ Ignored by {actor}",
+  "approval.noDraft": "No draft to send",
+  "approval.sendFailed": "Failed to send: {error}",
+  "approval.sent": "Sent",
+  "approval.draftSentBy": "✅ Draft sent by {actor}",
+  "approval.promptEdit": "Reply to this message with the edited text",
+  "approval.promptReply": "Reply to this message with your answer",
+  "approval.crispFailed": "❌ Failed to send to Crisp: {error}",
+  "approval.redactionsLost": "the masked personal data was lost in a restart; reply with the full text instead",
+  "approval.sentBy": "✅ Sent by {actor}:\n{text}",
+  "approval.unknownActor": "unknown",
+  "notify.newConversation": "🆕 New Crisp conversation",
+  "handoff.note": "🙋 Handoff to a human ({trigger}): {reason}",
+  "handoff.defaultReason": "Requested by the assistant",
+  "handoff.keywordReason": "Visitor wrote \"{keyword}\"",
+  "commands.pauseUsage": "Usage: /crisp-pause <session_id> [account]",
+  "commands.paused": "⏸️ Auto-replies paused for {sessionId} until /crisp-resume",
+  "commands.resumeUsage": "Usage: /crisp-resume <session_id> [account]",
+  "commands.unknownAccount": "Unknown Crisp account: {accountId}",
+  "commands.nonePaused": "(no conversation is paused)",
+  "commands.pausedList": "Paused: {sessions}",
+  "commands.resumed": "▶️ Auto-replies resumed for {sessionId}",
+  "commands.notPaused": "{sessionId} was not paused",
+  "visitor.autoReply": "Hello {name|there}! Thanks for reaching out. We'll get back to you shortly.",
+};
+
+export type MessageKey = keyof typeof en;
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  en,
+  fr: {
+    "approval.title": "Nouveau message Crisp",
+    "approval.draft": "Brouillon",
+    "approval.draftHint": "Envoie le brouillon, réponds à ce message avec ta version modifiée, ou ignore.",
+    "approval.replyHint": "Réponds à ce message pour envoyer ta réponse, ou ignore.",
+    "approval.sendAsIs": "✅ Envoyer tel quel",
+    "approval.edit": "✏️ Modifier",
+    "approval.reply": "✅ Répondre",
+    "approval.ignore": "❌ Ignorer",
+    "approval.notAllowed": "Non autorisé depuis ce chat",
+    "approval.alreadyHandled": "Déjà traité ou expiré",
+    "approval.expired": "⌛ Expiré ou déjà traité",
+    "approval.ignored": "Ignoré",
+    "approval.ignoredBy": "❌ Ignoré par {actor}",
+    "approval.noDraft": "Aucun brouillon à envoyer",
+    "approval.sendFailed": "Échec de l'envoi : {error}",
+    "approval.sent": "Envoyé",
+    "approval.draftSentBy": "✅ Brouillon envoyé par {actor}",
+    "approval.promptEdit": "Réponds à ce message avec le texte modifié",
+    "approval.promptReply": "Réponds à ce message avec ta réponse",
+    "approval.crispFailed": "❌ Échec de l'envoi vers Crisp : {error}",
+    "approval.redactionsLost": "les données personnelles masquées ont été perdues lors d'un redémarrage ; réponds avec le texte complet",
+    "approval.sentBy": "✅ Envoyé par {actor} :\n{text}",
+    "approval.unknownActor": "inconnu",
+    "notify.newConversation": "🆕 Nouvelle conversation Crisp",
+    "handoff.note": "🙋 Transfert à un humain ({trigger}) : {reason}",
+    "handoff.defaultReason": "Demandé par l'assistant",
+    "handoff.keywordReason": "Le visiteur a écrit « {keyword} »",
+    "commands.pauseUsage": "Usage : /crisp-pause <session_id> [compte]",
+    "commands.paused": "⏸️ Réponses automatiques en pause pour {sessionId} jusqu'à /crisp-resume",
+    "commands.resumeUsage": "Usage : /crisp-resume <session_id> [compte]",
+    "commands.unknownAccount": "Compte Crisp inconnu : {accountId}",
+    "commands.nonePaused": "(aucune conversation en pause)",
+    "commands.pausedList": "En pause : {sessions}",
+    "commands.resumed": "▶️ Réponses automatiques reprises pour {sessionId}",
+    "commands.notPaused": "{sessionId} n'était pas en pause",
+    "visitor.autoReply": "Bonjour {name|à vous} ! Merci de nous avoir contactés. Nous revenons vers vous très vite.",
+  },
+  es: {
+    "approval.title": "Nuevo mensaje de Crisp",
+    "approval.draft": "Borrador",
+    "approval.draftHint": "Envía el borrador, responde a este mensaje con tu versión editada o ignóralo.",
+    "approval.replyHint": "Responde a este mensaje para enviar tu respuesta o ignóralo.",
+    "approval.sendAsIs": "✅ Enviar tal cual",
+    "approval.edit": "✏️ Editar",
+    "approval.reply": "✅ Responder",
+    "approval.ignore": "❌ Ignorar",
+    "approval.notAllowed": "No permitido desde este chat",
+    "approval.alreadyHandled": "Ya gestionado o caducado",
+    "approval.expired": "⌛ Caducado o ya gestionado",
+    "approval.ignored": "Ignorado",
+    "approval.ignoredBy": "❌ Ignorado por {actor}",
+    "approval.noDraft": "No hay borrador que enviar",
+    "approval.sendFailed": "Error al enviar: {error}",
+    "approval.sent": "Enviado",
+    "approval.draftSentBy": "✅ Borrador enviado por {actor}",
+    "approval.promptEdit": "Responde a este mensaje con el texto editado",
+    "approval.promptReply": "Responde a este mensaje con tu respuesta",
+    "approval.crispFailed": "❌ Error al enviar a Crisp: {error}",
+    "approval.redactionsLost": "los datos personales ocultos se perdieron en un reinicio; responde con el texto completo",
+    "approval.sentBy": "✅ Enviado por {actor}:\n{text}",
+    "approval.unknownActor": "desconocido",
+    "notify.newConversation": "🆕 Nueva conversación de Crisp",
+    "handoff.note": "🙋 Transferido a una persona ({trigger}): {reason}",
+    "handoff.defaultReason": "Solicitado por el asistente",
+    "handoff.keywordReason": "El visitante escribió \"{keyword}\"",
+    "commands.pauseUsage": "Uso: /crisp-pause <session_id> [cuenta]",
+    "commands.paused": "⏸️ Respuestas automáticas en pausa para {sessionId} hasta /crisp-resume",
+    "commands.resumeUsage": "Uso: /crisp-resume <session_id> [cuenta]",
+    "commands.unknownAccount": "Cuenta de Crisp desconocida: {accountId}",
+    "commands.nonePaused": "(ninguna conversación en pausa)",
+    "commands.pausedList": "En pausa: {sessions}",
+    "commands.resumed": "▶️ Respuestas automáticas reanudadas para {sessionId}",
+    "commands.notPaused": "{sessionId} no estaba en pausa",
+    "visitor.autoReply": "¡Hola{#if name} {name}{/if}! Gracias por escribirnos. Te responderemos en breve.",
+  },
+  de: {
+    "approval.title": "Neue Crisp-Nachricht",
+    "approval.draft": "Entwurf",
+    "approval.draftHint": "Sende den Entwurf, antworte auf diese Nachricht mit deiner geänderten Version oder ignoriere sie.",
+    "approval.replyHint": "Antworte auf diese Nachricht, um deine Antwort zu senden, oder ignoriere sie.",
+    "approval.sendAsIs": "✅ So senden",
+    "approval.edit": "✏️ Bearbeiten",
+    "approval.reply": "✅ Antworten",
+    "approval.ignore": "❌ Ignorieren",
+    "approval.notAllowed": "In diesem Chat nicht erlaubt",
+    "approval.alreadyHandled": "Bereits erledigt oder abgelaufen",
+    "approval.expired": "⌛ Abgelaufen oder bereits erledigt",
+    "approval.ignored": "Ignoriert",
+    "approval.ignoredBy": "❌ Ignoriert von {actor}",
+    "approval.noDraft": "Kein Entwurf zum Senden",
+    "approval.sendFailed": "Senden fehlgeschlagen: {error}",
+    "approval.sent": "Gesendet",
+    "approval.draftSentBy": "✅ Entwurf gesendet von {actor}",
+    "approval.promptEdit": "Antworte auf diese Nachricht mit dem bearbeiteten Text",
+    "approval.promptReply": "Antworte auf diese Nachricht mit deiner Antwort",
+    "approval.crispFailed": "❌ Senden an Crisp fehlgeschlagen: {error}",
+    "approval.redactionsLost": "die maskierten personenbezogenen Daten gingen bei einem Neustart verloren; antworte mit dem vollständigen Text",
+    "approval.sentBy": "✅ Gesendet von {actor}:\n{text}",
+    "approval.unknownActor": "unbekannt",
+    "notify.newConversation": "🆕 Neue Crisp-Unterhaltung",
+    "handoff.note": "🙋 An einen Menschen übergeben ({trigger}): {reason}",
+    "handoff.defaultReason": "Vom Assistenten angefordert",
+    "handoff.keywordReason": "Besucher schrieb „{keyword}“",
+    "commands.pauseUsage": "Verwendung: /crisp-pause <session_id> [konto]",
+    "commands.paused": "⏸️ Automatische Antworten für {sessionId} pausiert bis /crisp-resume",
+    "commands.resumeUsage": "Verwendung: /crisp-resume <session_id> [konto]",
+    "commands.unknownAccount": "Unbekanntes Crisp-Konto: {accountId}",
+    "commands.nonePaused": "(keine Unterhaltung pausiert)",
+    "commands.pausedList": "Pausiert: {sessions}",
+    "commands.resumed": "▶️ Automatische Antworten für {sessionId} fortgesetzt",
+    "commands.notPaused": "{sessionId} war nicht pausiert",
+    "visitor.autoReply": "Hallo{#if name} {name}{/if}! Danke für deine Nachricht. Wir melden uns in Kürze.",
+  },
+};
+
+/**
+ * Map a BCP 47 tag (e.g. "fr-CA") to a supported locale, if any
+ */
+export function matchLocale(tag: string | undefined): Locale | null {
+  const language = tag?.toLowerCase().split(/[-_]/)[0];
+  return (LOCALES as readonly string[]).includes(language ?? "") ? (language as Locale) : null;
+}
+
+/**
+ * Look up a localized string and fill its `{placeholders}`
+ */
+export function t(
+  locale: Locale | undefined,
+  key: MessageKey,
+  vars: Record<string, string | number> = {}
+): string {
+  const template = MESSAGES[locale ?? DEFAULT_LOCALE]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in vars ? String(vars[name]) : placeholder
+  );
+}
+
+/**
+ * Built-in visitor-facing template in every supported locale
+ */
+export function localizedTemplate(key: MessageKey): Record<string, string> {
+  return Object.fromEntries([
+    ["default", en[key]],
+    ...LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map((locale) => [locale, MESSAGES[locale][key]]),
+  ]);
+}
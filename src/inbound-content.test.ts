@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  isConversationMessage,
+  mediaKindFromContentType,
+  normalizeInboundContent,
+  summarizeMessageContent,
+} from "./inbound-content.js";
+
+describe("normalizeInboundContent", () => {
+  it("passes text through and treats a missing type as text", () => {
+    expect(normalizeInboundContent("text", "Hello")).toEqual({ type: "text", text: "Hello" });
+    expect(normalizeInboundContent(undefined, "Hello")).toEqual({ type: "text", text: "Hello" });
+  });
+
+  it("returns null for types it does not understand", () => {
+    expect(normalizeInboundContent("event", "state changed")).toBeNull();
+    expect(normalizeInboundContent("note", "internal")).toBeNull();
+  });
+
+  it("turns attachments into a label plus the media to download", () => {
+    expect(
+      normalizeInboundContent("file", { name: "invoice.pdf", url: "https://files.example/invoice.pdf", type: "application/pdf" })
+    ).toEqual({
+      type: "file",
+      text: "[File: invoice.pdf]",
+      media: { url: "https://files.example/invoice.pdf", kind: "file", contentType: "application/pdf", name: "invoice.pdf" },
+    });
+    expect(normalizeInboundContent("animation", { url: "https://files.example/wave.gif" })).toEqual({
+      type: "animation",
+      text: "[Animation]",
+      media: { url: "https://files.example/wave.gif", kind: "image", contentType: "image/gif" },
+    });
+    expect(
+      normalizeInboundContent("audio", { url: "https://files.example/voice.ogg", type: "audio/ogg", duration: 12.4 })
+    ).toEqual({
+      type: "audio",
+      text: "[Voice message (12s)]",
+      media: { url: "https://files.example/voice.ogg", kind: "audio", contentType: "audio/ogg" },
+    });
+  });
+
+  it("keeps a label when an attachment has no URL", () => {
+    expect(normalizeInboundContent("file", { name: "", url: "", type: "" })).toEqual({ type: "file", text: "[File]" });
+  });
+
+  it("describes the choice the visitor picked", () => {
+    const normalized = normalizeInboundContent("picker", {
+      id: "plan",
+      text: "Which plan?",
+      choices: [
+        { value: "basic", label: "Basic", selected: false },
+        { value: "pro", label: "Pro", selected: true },
+      ],
+    });
+
+    expect(normalized?.text).toBe('[Picked "Pro" for: Which plan?]');
+    expect(normalized?.details).toEqual({
+      id: "plan",
+      question: "Which plan?",
+      selected: [{ value: "pro", label: "Pro" }],
+      options: [
+        { value: "basic", label: "Basic" },
+        { value: "pro", label: "Pro" },
+      ],
+    });
+  });
+
+  it("describes filled and empty fields", () => {
+    expect(normalizeInboundContent("field", { id: "email", text: "Your email", value: "vera@example.com" })?.text).toBe(
+      '[Filled "Your email": vera@example.com]'
+    );
+    expect(normalizeInboundContent("field", { id: "email", text: "" })?.text).toBe("[Field: email]");
+  });
+
+  it("lists carousel cards", () => {
+    const normalized = normalizeInboundContent("carousel", {
+      text: "Our plans",
+      targets: [
+        { title: "Basic", actions: [{ label: "Pick", url: "https://example.com/basic" }] },
+        { title: "Pro", description: "For teams" },
+      ],
+    });
+
+    expect(normalized?.text).toBe("[Carousel: Our plans (Basic, Pro)]");
+    expect(normalized?.details).toEqual({
+      text: "Our plans",
+      targets: [
+        { title: "Basic", description: undefined, actions: ["Pick"] },
+        { title: "Pro", description: "For teams", actions: undefined },
+      ],
+    });
+  });
+});
+
+describe("mediaKindFromContentType", () => {
+  it("maps MIME types to media kinds", () => {
+    expect(mediaKindFromContentType("image/png")).toBe("image");
+    expect(mediaKindFromContentType("audio/mpeg")).toBe("audio");
+    expect(mediaKindFromContentType("video/mp4")).toBe("video");
+    expect(mediaKindFromContentType("application/pdf")).toBe("file");
+    expect(mediaKindFromContentType(undefined)).toBe("file");
+  });
+});
+
+describe("history lines", () => {
+  it("summarizes any message type on one line", () => {
+    expect(summarizeMessageContent("text", "Hello")).toBe("Hello");
+    expect(summarizeMessageContent("audio", { url: "", type: "audio/ogg" })).toBe("[Voice message]");
+    expect(summarizeMessageContent("unknown", "?")).toBe("[unknown]");
+  });
+
+  it("keeps notes and events out of the conversation", () => {
+    expect(isConversationMessage("text")).toBe(true);
+    expect(isConversationMessage("picker")).toBe(true);
+    expect(isConversationMessage("note")).toBe(false);
+    expect(isConversationMessage("event")).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Inbound Message Normalization
+ *
+ * Turns every Crisp message type into agent-readable text plus structured
+ * context, and downloads visitor attachments into the host media store.
+ */
+
+import type { PluginRuntime } from "clawdbot/plugin-sdk";
+import type {
+  CrispAnimationContent,
+  CrispAudioContent,
+  CrispCarouselContent,
+  CrispFieldContent,
+  CrispFileContent,
+  CrispMessageContent,
+  CrispMessageType,
+  CrispPickerContent,
+} from "./types.js";
+
+export type InboundMediaKind = "image" | "audio" | "video" | "file";
+
+export interface InboundMedia {
+  url: string;
+  kind: InboundMediaKind;
+  contentType?: string;
+  name?: string;
+}
+
+export interface NormalizedInbound {
+  type: CrispMessageType;
+  /** Agent-readable text */
+  text: string;
+  /** Attachment to download, if any */
+  media?: InboundMedia;
+  /** Structured details for the agent context (pickers, fields, carousels) */
+  details?: Record<string, unknown>;
+}
+
+export interface SavedInboundMedia extends InboundMedia {
+  path: string;
+}
+
+const SUPPORTED_TYPES = new Set<string>([
+  "text",
+  "file",
+  "animation",
+  "audio",
+  "picker",
+  "field",
+  "carousel",
+]);
+
+/**
+ * Map a MIME type to the host's media kinds
+ */
+export function mediaKindFromContentType(contentType: string | undefined): InboundMediaKind {
+  if (contentType?.startsWith("image/")) return "image";
+  if (contentType?.startsWith("audio/")) return "audio";
+  if (contentType?.startsWith("video/")) return "video";
+  return "file";
+}
+
+function asObject<T>(content: CrispMessageContent | undefined): Partial<T> {
+  return content && typeof content === "object" ? (content as unknown as Partial<T>) : {};
+}
+
+/**
+ * Normalize a Crisp message into text + structured context.
+ * Returns null for types the plugin does not understand.
+ */
+export function normalizeInboundContent(
+  type: string | undefined,
+  content: CrispMessageContent | undefined
+): NormalizedInbound | null {
+  const messageType = (type ?? "text") as CrispMessageType;
+  if (!SUPPORTED_TYPES.has(messageType)) return null;
+
+  switch (messageType) {
+    case "text":
+      return { type: "text", text: typeof content === "string" ? content : "" };
+
+    case "file": {
+      const file = asObject<CrispFileContent>(content);
+      const url = file.url ?? (typeof content === "string" ? content : "");
+      if (!url) return { type: "file", text: "[File]" };
+      return {
+        type: "file",
+        text: `[File: ${file.name || "attachment"}]`,
+        media: {
+          url,
+          kind: mediaKindFromContentType(file.type),
+          contentType: file.type,
+          name: file.name,
+        },
+      };
+    }
+
+    case "animation": {
+      const animation = asObject<CrispAnimationContent>(content);
+      if (!animation.url) return { type: "animation", text: "[Animation]" };
+      return {
+        type: "animation",
+        text: "[Animation]",
+        media: {
+          url: animation.url,
+          kind: "image",
+          contentType: animation.type ?? "image/gif",
+        },
+      };
+    }
+
+    case "audio": {
+      const audio = asObject<CrispAudioContent>(content);
+      const duration = audio.duration ? ` (${Math.round(audio.duration)}s)` : "";
+      if (!audio.url) return { type: "audio", text: `[Voice message${duration}]` };
+      return {
+        type: "audio",
+        text: `[Voice message${duration}]`,
+        media: {
+          url: audio.url,
+          kind: "audio",
+          contentType: audio.type,
+        },
+      };
+    }
+
+    case "picker": {
+      const picker = asObject<CrispPickerContent>(content);
+      const choices = picker.choices ?? [];
+      const selected = choices.filter((choice) => choice.selected);
+      const picked = selected.map((choice) => choice.label || choice.value);
+      return {
+        type: "picker",
+        text: picked.length > 0
+          ? `[Picked "${picked.join('", "')}" for: ${picker.text ?? "choice"}]`
+          : `[Choice: ${picker.text ?? ""}]`,
+        details: {
+          id: picker.id,
+          question: picker.text,
+          selected: selected.map((choice) => ({ value: choice.value, label: choice.label })),
+          options: choices.map((choice) => ({ value: choice.value, label: choice.label })),
+        },
+      };
+    }
+
+    case "field": {
+      const field = asObject<CrispFieldContent>(content);
+      const name = field.text || field.id || "field";
+      return {
+        type: "field",
+        text: field.value !== undefined && field.value !== ""
+          ? `[Filled "${name}": ${field.value}]`
+          : `[Field: ${name}]`,
+        details: {
+          id: field.id,
+          name: field.text,
+          explain: field.explain,
+          value: field.value,
+        },
+      };
+    }
+
+    case "carousel": {
+      const carousel = asObject<CrispCarouselContent>(content);
+      const targets = carousel.targets ?? [];
+      return {
+        type: "carousel",
+        text: `[Carousel: ${carousel.text ?? ""}${targets.length > 0 ? ` (${targets.map((t) => t.title).join(", ")})` : ""}]`,
+        details: {
+          text: carousel.text,
+          targets: targets.map((target) => ({
+            title: target.title,
+            description: target.description,
+            actions: target.actions?.map((action) => action.label),
+          })),
+        },
+      };
+    }
+  }
+}
+
+// Operator-only messages (private notes, conversation events) the visitor never sees
+const INTERNAL_MESSAGE_TYPES = new Set(["note", "event"]);
+
+/**
+ * Whether a stored Crisp message is part of the conversation the visitor sees
+ * (internal notes, such as handoff reasons, must not reach the model)
+ */
+export function isConversationMessage(type: string | undefined): boolean {
+  return !INTERNAL_MESSAGE_TYPES.has(type ?? "");
+}
+
+/**
+ * Render a stored Crisp message as a single history line
+ */
+export function summarizeMessageContent(type: string | undefined, content: CrispMessageContent | undefined): string {
+  return normalizeInboundContent(type, content)?.text ?? `[${type ?? "message"}]`;
+}
+
+/**
+ * Download a visitor attachment into the host media store
+ */
+export async function saveInboundMedia(
+  core: PluginRuntime,
+  media: InboundMedia,
+  maxBytes: number
+): Promise<SavedInboundMedia> {
+  const fetched = await core.channel.media.fetchRemoteMedia({
+    url: media.url,
+    maxBytes,
+    filePathHint: media.name,
+  });
+
+  const contentType = fetched.contentType ?? media.contentType;
+  const saved = await core.channel.media.saveMediaBuffer(
+    fetched.buffer,
+    contentType,
+    "inbound",
+    maxBytes,
+    media.name ?? fetched.fileName
+  );
+
+  return {
+    ...media,
+    contentType: saved.contentType ?? contentType,
+    kind: media.kind === "file" ? mediaKindFromContentType(saved.contentType ?? contentType) : media.kind,
+    path: saved.path,
+  };
+}
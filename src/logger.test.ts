@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLogger, createRequestId, logBody, maskSecrets, registerSecretValue } from "./logger.js";
+import { setCrispRuntime } from "./runtime.js";
+import { createFakeRuntime } from "../test/fake-runtime.js";
+
+const SECRET = 'sk_"quoted\\secret';
+
+function captureLine(write: () => void): string {
+  const spy = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+  try {
+    write();
+    return String(spy.mock.calls[0]?.[0] ?? "");
+  } finally {
+    spy.mockRestore();
+  }
+}
+
+describe("secret masking", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  registerSecretValue(SECRET);
+
+  it("masks registered values in messages", () => {
+    expect(maskSecrets(`token ${SECRET} used`)).toBe("token [redacted] used");
+  });
+
+  it("ignores values too short to be credentials", () => {
+    registerSecretValue("abc");
+    expect(maskSecrets("abc")).toBe("abc");
+  });
+
+  it("masks values with quotes and backslashes inside nested fields", () => {
+    const line = captureLine(() =>
+      createLogger().info("request", { request: { headers: [`Bearer ${SECRET}`] }, error: new Error(SECRET) })
+    );
+    expect(line).not.toContain("quoted");
+    expect(line).toContain('"headers":["Bearer [redacted]"]');
+    expect(line).toContain("error=[redacted]");
+  });
+
+  it("logs circular fields instead of throwing", () => {
+    const node: Record<string, unknown> = { name: SECRET };
+    node.self = node;
+    const line = captureLine(() => createLogger().info("cycle", { node }));
+    expect(line).toContain('node={"name":"[redacted]","self":"[circular]"}');
+  });
+
+  it("writes JSON lines in production, even for values JSON cannot encode", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    const line = captureLine(() => createLogger({ accountId: "main" }).info("sent", { count: 2n, ok: true }));
+    expect(JSON.parse(line)).toMatchObject({ level: "info", accountId: "main", msg: "sent", count: "2", ok: true });
+  });
+});
+
+// Last: once registered, the runtime stays for the rest of the file
+describe("host runtime logging", () => {
+  it("hides debug lines and message bodies unless verbose", () => {
+    const { runtime, logs } = createFakeRuntime();
+    setCrispRuntime(runtime);
+    const requestId = createRequestId();
+    const logger = createLogger({ accountId: "main" }).child({ sessionId: "session_log", requestId });
+
+    logger.debug("Queued message");
+    logger.info("Visitor message received", { body: logBody("Hello there") });
+
+    expect(requestId).toMatch(/^[0-9a-f]{8}$/);
+    expect(logs).toEqual([
+      {
+        level: "info",
+        message: "Visitor message received",
+        fields: { body: "<11 chars>" },
+        bindings: { plugin: "crisp", accountId: "main", sessionId: "session_log", requestId },
+        childLevel: "info",
+      },
+    ]);
+  });
+
+  it("logs everything at verbose level", () => {
+    const { runtime, logs } = createFakeRuntime({ verbose: true });
+    setCrispRuntime(runtime);
+    const logger = createLogger({ accountId: "main" });
+
+    logger.debug("Queued message");
+    logger.warn("Visitor message received", { body: logBody("Hello there") });
+
+    expect(logs.map(({ level, message, fields, childLevel }) => ({ level, message, fields, childLevel }))).toEqual([
+      { level: "debug", message: "Queued message", fields: {}, childLevel: "debug" },
+      { level: "warn", message: "Visitor message received", fields: { body: "Hello there" }, childLevel: "debug" },
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Plugin Logger
+ *
+ * Leveled, structured logging with account/session context and a
+ * per-webhook correlation ID. Goes through the host runtime's logger once
+ * the plugin is registered; before that (or outside the gateway) it writes
+ * JSON lines in production and readable lines otherwise.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { RuntimeLogger } from "clawdbot/plugin-sdk";
+import { getCrispRuntime, hasCrispRuntime } from "./runtime.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogContext {
+  accountId?: string;
+  sessionId?: string;
+  websiteId?: string;
+  /** Correlates every line caused by one webhook delivery */
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+export type LogFields = Record<string, unknown>;
+
+export interface CrispLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger with extra context bound to every line */
+  child(context: LogContext): CrispLogger;
+  readonly context: LogContext;
+}
+
+/**
+ * New correlation ID for a webhook delivery
+ */
+export function createRequestId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+/**
+ * Whether the host asked for verbose logs (message bodies, debug lines)
+ */
+export function isVerboseLogging(): boolean {
+  if (!hasCrispRuntime()) return false;
+  try {
+    return getCrispRuntime().logging.shouldLogVerbose();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Message content for a log field: the text at verbose level, its length otherwise
+ */
+export function logBody(text: string | undefined): string {
+  if (text === undefined) return "";
+  return isVerboseLogging() ? text : `<${text.length} chars>`;
+}
+
+// Credential values that must never reach a log line
+const secretValues = new Set<string>();
+const MAX_SECRET_VALUES = 100;
+// Shorter values would mask ordinary words
+const MIN_SECRET_LENGTH = 6;
+
+/**
+ * Mask a credential value in every log line from now on
+ */
+export function registerSecretValue(value: string): void {
+  if (value.length < MIN_SECRET_LENGTH || secretValues.has(value)) return;
+  secretValues.add(value);
+  if (secretValues.size > MAX_SECRET_VALUES) {
+    secretValues.delete(secretValues.values().next().value as string);
+  }
+}
+
+/**
+ * Replace registered credential values in a text
+ */
+export function maskSecrets(text: string): string {
+  let masked = text;
+  for (const secret of secretValues) {
+    if (masked.includes(secret)) masked = masked.split(secret).join("[redacted]");
+  }
+  return masked;
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Masks strings inside arrays and plain objects; `path` holds the containers
+// being walked, so a reference back into one of them is cut instead of looping
+function serialize(value: unknown, path: object[] = []): unknown {
+  if (value instanceof Error) return maskSecrets(value.message);
+  if (typeof value === "string") return maskSecrets(value);
+  if (value === null || typeof value !== "object" || secretValues.size === 0) return value;
+  if (!Array.isArray(value) && !isPlainObject(value)) return value;
+  if (path.includes(value)) return "[circular]";
+
+  path.push(value);
+  const masked = Array.isArray(value)
+    ? value.map((item) => serialize(item, path))
+    : Object.fromEntries(Object.entries(value).map(([key, item]) => [key, serialize(item, path)]));
+  path.pop();
+  return masked;
+}
+
+/**
+ * JSON for a log line; values JSON cannot encode (cycles, BigInt) are
+ * written with String() instead of failing the log call
+ */
+function stringifyForLog(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// The value itself when JSON can encode it, its String() otherwise
+function toJsonValue(value: unknown): unknown {
+  try {
+    JSON.stringify(value);
+    return value;
+  } catch {
+    return String(value);
+  }
+}
+
+function normalizeFields(fields: LogFields | undefined): LogFields {
+  const normalized: LogFields = {};
+  for (const [key, value] of Object.entries(fields ?? {})) {
+    if (value !== undefined) normalized[key] = serialize(value);
+  }
+  return normalized;
+}
+
+function writeFallback(level: LogLevel, context: LogContext, message: string, fields: LogFields): void {
+  const stream = level === "warn" || level === "error" ? process.stderr : process.stdout;
+
+  if (process.env.NODE_ENV === "production") {
+    const entry = { time: new Date().toISOString(), level, plugin: "crisp", ...context, msg: message };
+    let line: string;
+    try {
+      line = JSON.stringify({ ...entry, ...fields });
+    } catch {
+      line = JSON.stringify({
+        ...entry,
+        ...Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, toJsonValue(value)])),
+      });
+    }
+    stream.write(line + "\n");
+    return;
+  }
+
+  const extras = Object.entries({ ...context, ...fields })
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === "string" ? value : stringifyForLog(value)}`)
+    .join(" ");
+  stream.write(`[crisp] ${level.toUpperCase()} ${message}${extras ? ` ${extras}` : ""}\n`);
+}
+
+/**
+ * Create a logger (bindings are resolved against the runtime lazily, since
+ * modules load before the plugin is registered)
+ */
+export function createLogger(context: LogContext = {}): CrispLogger {
+  let runtimeLogger: RuntimeLogger | null = null;
+
+  const emit = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (level === "debug" && !isVerboseLogging()) return;
+    const text = maskSecrets(message);
+    const normalized = normalizeFields(fields);
+
+    if (hasCrispRuntime()) {
+      try {
+        runtimeLogger ??= getCrispRuntime().logging.getChildLogger(
+          { plugin: "crisp", ...context },
+          { level: isVerboseLogging() ? "debug" : "info" }
+        );
+        const write = runtimeLogger[level] ?? runtimeLogger.info;
+        write.call(runtimeLogger, text, normalized);
+        return;
+      } catch {
+        // Older hosts without getChildLogger
+      }
+    }
+
+    writeFallback(level, context, text, normalized);
+  };
+
+  return {
+    debug: (message, fields) => emit("debug", message, fields),
+    info: (message, fields) => emit("info", message, fields),
+    warn: (message, fields) => emit("warn", message, fields),
+    error: (message, fields) => emit("error", message, fields),
+    child: (extra) => createLogger({ ...context, ...extra }),
+    context,
+  };
+}
+
+/**
+ * Root plugin logger
+ */
+export const log = createLogger();
@@ -6,22 +6,74 @@
  */
 
 import type { IncomingMessage, ServerResponse } from "node:http";
-import type { ClawdbotConfig } from "clawdbot/plugin-sdk";
+import type { ClawdbotConfig, PluginRuntime } from "clawdbot/plugin-sdk";
 import {
-  DEFAULT_WEBHOOK_PATH,
   type CrispConfig,
+  type CrispConversation,
+  type CrispMessageType,
   type CrispSessionState,
+  type CrispWebhookData,
   type CrispWebhookPayload,
 } from "./types.js";
-import { createCrispClient } from "./api-client.js";
+import {
+  createCrispClientFromConfig,
+  CrispApiError,
+  describeCrispError,
+  type CrispApiClient,
+} from "./api-client.js";
+import { buildFileMessage, extractRichMessages } from "./rich-messages.js";
+import { buildMessageDedupeKey, createDedupeCache, type DedupeCache } from "./dedupe.js";
+import { createSessionQueue, type SessionQueue } from "./session-queue.js";
 import { getCrispRuntime, hasCrispRuntime } from "./runtime.js";
+import { notifyNewConversation } from "./notify.js";
+import { evaluateReplyPolicy, markOutOfHoursTemplateSent } from "./reply-policy.js";
+import { sendTemplateMessage } from "./templates.js";
+import { t } from "./i18n.js";
+import { exportRedactions, redactText, restoreRedactions } from "./redaction.js";
+import { createRequestId, log, logBody, type CrispLogger } from "./logger.js";
+import { formatVisitorPreamble, loadVisitorProfile, type VisitorProfile } from "./visitor-profile.js";
+import { getTakeoverState, isOwnMessage, pauseSession, sendOwnMessage } from "./takeover.js";
+import {
+  extractHandoffMarker,
+  matchHandoffKeyword,
+  performHandoff,
+  registerHandoffSession,
+} from "./handoff.js";
+import {
+  isConversationMessage,
+  normalizeInboundContent,
+  saveInboundMedia,
+  summarizeMessageContent,
+  type InboundMedia,
+} from "./inbound-content.js";
 import { storePendingReply, updatePendingReplyTelegram } from "./pending-replies.js";
 import { sendTelegramNotification } from "./telegram-notify.js";
+import { normalizeWebhookPath, resolveWebhookPath } from "./webhook-paths.js";
+import { validateWebhookSecret, validateWebhookSignature } from "./webhook-auth.js";
 
 // In-memory session tracking for notification deduplication
 const activeSessions = new Map<string, CrispSessionState>();
 const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
+// Typing indicator refresh cadence and safety limit
+const TYPING_REFRESH_MS = 4_000;
+const TYPING_MAX_MS = 2 * 60 * 1000;
+
+// Recently accepted message deliveries per account (Crisp retries webhooks)
+const recentDeliveries = new Map<string, DedupeCache>();
+
+function getDeliveryCache(accountId: string): DedupeCache {
+  let cache = recentDeliveries.get(accountId);
+  if (!cache) {
+    cache = createDedupeCache({
+      maxEntries: 1000,
+      ttlMs: 10 * 60 * 1000, // 10 minutes
+    });
+    recentDeliveries.set(accountId, cache);
+  }
+  return cache;
+}
+
 // Re-export for backward compatibility
 export { setCrispRuntime, getCrispRuntime } from "./runtime.js";
 
@@ -33,51 +85,55 @@ export {
   getAllPendingReplies,
 } from "./pending-replies.js";
 
-/**
- * Get the configured webhook path
- */
-export function resolveWebhookPath(config: CrispConfig): string {
-  return config.webhookPath || DEFAULT_WEBHOOK_PATH;
-}
+// Largest webhook body read (Crisp and Telegram events are a few KB)
+export const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024;
 
-/**
- * Validate the webhook secret from URL params
- */
-function validateWebhookSecret(
-  url: URL,
-  expectedSecret: string
-): boolean {
-  const providedSecret = url.searchParams.get("secret");
-  if (!providedSecret || !expectedSecret) return false;
-  
-  // Constant-time comparison to prevent timing attacks
-  if (providedSecret.length !== expectedSecret.length) return false;
-  let result = 0;
-  for (let i = 0; i < providedSecret.length; i++) {
-    result |= providedSecret.charCodeAt(i) ^ expectedSecret.charCodeAt(i);
-  }
-  return result === 0;
+export class WebhookBodyTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Request body exceeds ${maxBytes} bytes`);
+    this.name = "WebhookBodyTooLargeError";
+  }
 }
 
 /**
- * Parse JSON body from request
+ * Read the raw request body (rejects past `maxBytes`, discarding the rest)
  */
-async function parseJsonBody(req: IncomingMessage): Promise<unknown> {
+export function readRawBody(req: IncomingMessage, maxBytes = MAX_WEBHOOK_BODY_BYTES): Promise<string> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
-    req.on("data", (chunk) => chunks.push(chunk));
-    req.on("end", () => {
-      try {
-        const body = Buffer.concat(chunks).toString("utf8");
-        resolve(JSON.parse(body));
-      } catch (err) {
-        reject(new Error("Invalid JSON body"));
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(new WebhookBodyTooLargeError(maxBytes));
+        return;
       }
+      chunks.push(chunk);
     });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
     req.on("error", reject);
   });
 }
 
+/**
+ * Parse a JSON body string
+ */
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new Error("Invalid JSON body");
+  }
+}
+
+/**
+ * Parse JSON body from request
+ */
+export async function parseJsonBody(req: IncomingMessage): Promise<unknown> {
+  return parseJson(await readRawBody(req));
+}
+
 /**
  * Track session for notification deduplication
  */
@@ -125,6 +181,71 @@ function trackSession(
   return session;
 }
 
+/**
+ * Send an agent reply: plain text, ```crisp rich blocks (pickers, fields,
+ * carousels) and media attachments. Returns the number of messages sent.
+ */
+async function sendAgentReply(
+  client: CrispApiClient,
+  websiteId: string,
+  sessionId: string,
+  payload: { text?: string; mediaUrls?: string[]; mediaUrl?: string }
+): Promise<number> {
+  // Put back values the model only saw as placeholders
+  const { text, messages } = extractRichMessages(restoreRedactions(payload.text ?? "", sessionId));
+  const mediaUrls = payload.mediaUrls ?? (payload.mediaUrl ? [payload.mediaUrl] : []);
+  let sent = 0;
+
+  if (text) {
+    await sendOwnMessage(client, { websiteId, sessionId, content: text });
+    sent += 1;
+  }
+
+  for (const message of messages) {
+    await sendOwnMessage(client, { websiteId, sessionId, ...message });
+    sent += 1;
+  }
+
+  for (const url of mediaUrls) {
+    await sendOwnMessage(client, { websiteId, sessionId, ...buildFileMessage({ url }) });
+    sent += 1;
+  }
+
+  return sent;
+}
+
+/**
+ * Show the typing indicator and keep it alive until stopped.
+ * Gives up after TYPING_MAX_MS so a stuck dispatch never types forever.
+ */
+function startTypingIndicator(
+  client: CrispApiClient,
+  websiteId: string,
+  sessionId: string,
+  logger: CrispLogger
+): { stop: () => Promise<void> } {
+  let active = true;
+
+  const send = (state: "start" | "stop") =>
+    client.setComposeState(websiteId, sessionId, state).catch((err) => {
+      logger.warn("Failed to update typing state", { state, error: err });
+    });
+
+  void send("start");
+  const refresh = setInterval(() => void send("start"), TYPING_REFRESH_MS);
+  const deadline = setTimeout(() => void stop(), TYPING_MAX_MS);
+
+  async function stop(): Promise<void> {
+    if (!active) return;
+    active = false;
+    clearInterval(refresh);
+    clearTimeout(deadline);
+    await send("stop");
+  }
+
+  return { stop };
+}
+
 /**
  * Send a reply to a Crisp conversation (used after approval)
  */
@@ -133,28 +254,295 @@ export async function sendCrispReply(
   sessionId: string,
   websiteId: string,
   message: string
-): Promise<{ ok: boolean; error?: string }> {
-  const client = createCrispClient({
-    apiKeyId: config.apiKeyId,
-    apiKeySecret: config.apiKeySecret,
-  });
+): Promise<{ ok: boolean; error?: string; retryable?: boolean }> {
+  const client = createCrispClientFromConfig(config);
+
+  const logger = log.child({ sessionId, websiteId });
 
   try {
-    await client.sendMessage({
-      websiteId,
-      sessionId,
-      content: message,
-    });
-    console.log(`[crisp] ✅ Sent reply to ${sessionId}`);
-    
+    await sendAgentReply(client, websiteId, sessionId, { text: message });
+    logger.info("Sent reply", { body: logBody(message) });
+
     if (config.resolveOnReply) {
       await client.updateConversationState(websiteId, sessionId, "resolved");
     }
-    
+
     return { ok: true };
   } catch (err) {
-    console.error(`[crisp] ❌ Failed to send reply:`, err);
-    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    const retryable = err instanceof CrispApiError && err.retryable;
+    if (retryable) {
+      logger.warn("Failed to send reply, Crisp may accept it later", { error: err });
+    } else {
+      logger.error("Failed to send reply", { error: err });
+    }
+    return { ok: false, error: describeCrispError(err), retryable };
+  }
+}
+
+/**
+ * Run the agent and capture its reply as a draft instead of sending it
+ */
+async function generateDraftReply(
+  core: PluginRuntime,
+  ctxPayload: Record<string, unknown>,
+  clawdbotConfig: ClawdbotConfig,
+  logger: CrispLogger
+): Promise<string> {
+  const parts: string[] = [];
+
+  try {
+    await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+      ctx: ctxPayload,
+      cfg: clawdbotConfig,
+      dispatcherOptions: {
+        deliver: async (payload: { text?: string }) => {
+          const text = payload.text?.trim();
+          if (text) parts.push(text);
+        },
+        onError: (err: unknown) => {
+          logger.error("Draft dispatch error", { error: err });
+        },
+      },
+    });
+  } catch (err) {
+    logger.error("Failed to generate draft", { error: err });
+  }
+
+  return parts.join("\n\n");
+}
+
+/**
+ * Notify the configured target that a visitor started a conversation
+ */
+async function announceNewConversation(
+  config: CrispConfig,
+  accountId: string,
+  sessionId: string,
+  websiteId: string,
+  visitorName: string,
+  firstMessage: string,
+  logger: CrispLogger
+): Promise<void> {
+  if (!hasCrispRuntime() || !config.notifyTarget) return;
+
+  const client = createCrispClientFromConfig(config);
+
+  let meta: CrispConversation["meta"] | undefined;
+  try {
+    meta = (await client.getConversation(websiteId, sessionId)).meta;
+  } catch (err) {
+    logger.warn("Failed to fetch conversation meta", { error: err });
+  }
+
+  const result = await notifyNewConversation({
+    core: getCrispRuntime(),
+    accountId,
+    notifyTarget: config.notifyTarget,
+    websiteId,
+    sessionId,
+    visitorName,
+    firstMessage,
+    meta,
+    locale: config.locale,
+    redaction: config.redaction,
+  });
+
+  if (!result.ok) {
+    logger.error("New conversation notification failed", { error: result.error });
+  } else if (!result.skipped) {
+    logger.info("Notified new conversation", { target: config.notifyTarget });
+  }
+}
+
+/**
+ * Resolve the takeover cooldown (null = until resumed)
+ */
+function resolveTakeoverCooldownMs(config: CrispConfig): number | null {
+  const minutes = config.takeoverCooldownMinutes ?? 30;
+  return minutes > 0 ? minutes * 60 * 1000 : null;
+}
+
+/**
+ * Pause the bot when a human operator answers from the Crisp dashboard
+ */
+function handleOperatorMessage(
+  config: CrispConfig,
+  accountId: string,
+  data: CrispWebhookData,
+  logger: CrispLogger
+): void {
+  // Internal notes are not visible to the visitor
+  if (!config.takeoverDetection || data.type === "note" || isOwnMessage(data)) return;
+
+  const operator = data.user?.nickname;
+  pauseSession({
+    accountId,
+    sessionId: data.session_id,
+    reason: "operator",
+    cooldownMs: resolveTakeoverCooldownMs(config),
+    operator,
+  });
+  logger.info("Operator took over, auto-replies paused", { sessionId: data.session_id, operator });
+}
+
+/**
+ * Visitor message waiting in the per-session queue
+ */
+interface InboundMessage {
+  config: CrispConfig;
+  clawdbotConfig: ClawdbotConfig;
+  accountId: string;
+  sessionId: string;
+  websiteId: string;
+  visitorName: string;
+  type: CrispMessageType;
+  text: string;
+  media?: InboundMedia;
+  details?: Record<string, unknown>;
+  fingerprint?: number;
+  timestamp: number;
+  /** First message of the conversation (greeted before the agent answers) */
+  isNewSession: boolean;
+  /** Correlation ID of the webhook delivery */
+  requestId?: string;
+}
+
+// Whether an account takes webhooks, and the accepted deliveries still being
+// processed. A stopping account is "closing" until those deliveries settle
+// (they may still queue turns), then "closed": nothing is queued any more.
+interface InboundIntake {
+  state: "open" | "closing" | "closed";
+  deliveries: Set<Promise<void>>;
+}
+
+const intakes = new Map<string, InboundIntake>();
+
+/**
+ * Start taking webhooks for an account (replaces the intake of a previous run)
+ */
+export function openInboundIntake(accountId: string): void {
+  intakes.set(accountId, { state: "open", deliveries: new Set() });
+}
+
+// Accounts never opened (handler used without the gateway) take webhooks
+function getInboundIntake(accountId: string): InboundIntake {
+  let intake = intakes.get(accountId);
+  if (!intake) {
+    intake = { state: "open", deliveries: new Set() };
+    intakes.set(accountId, intake);
+  }
+  return intake;
+}
+
+function trackDelivery(intake: InboundIntake, delivery: Promise<void>): void {
+  intake.deliveries.add(delivery);
+  void delivery.finally(() => intake.deliveries.delete(delivery));
+}
+
+// Per-account inbound queues (replaced when the account's settings change)
+const inboundQueues = new Map<
+  string,
+  { queue: SessionQueue<InboundMessage>; debounceMs: number; maxBurst: number }
+>();
+
+// Replaced queues still finishing their turns, so draining an account waits for them too
+const retiredQueues = new Map<string, Set<SessionQueue<InboundMessage>>>();
+
+/**
+ * Stop feeding an account's current queue; it finishes its turns in the background
+ */
+function retireInboundQueue(accountId: string): void {
+  const entry = inboundQueues.get(accountId);
+  if (!entry) return;
+  inboundQueues.delete(accountId);
+
+  const retired = retiredQueues.get(accountId) ?? new Set<SessionQueue<InboundMessage>>();
+  retiredQueues.set(accountId, retired);
+  retired.add(entry.queue);
+
+  const release = () => {
+    retired.delete(entry.queue);
+    if (retired.size === 0 && retiredQueues.get(accountId) === retired) retiredQueues.delete(accountId);
+  };
+  entry.queue.drain().then(release, release);
+}
+
+function accountQueues(accountId: string): SessionQueue<InboundMessage>[] {
+  const current = inboundQueues.get(accountId)?.queue;
+  return [...(current ? [current] : []), ...(retiredQueues.get(accountId) ?? [])];
+}
+
+/**
+ * Get the inbound queue for an account (null once the account has stopped)
+ */
+function getInboundQueue(accountId: string, config: CrispConfig): SessionQueue<InboundMessage> | null {
+  if (getInboundIntake(accountId).state === "closed") return null;
+
+  const debounceMs = config.debounceMs ?? 0;
+  const maxBurst = config.maxBurstMessages ?? 5;
+  const existing = inboundQueues.get(accountId);
+
+  if (existing && existing.debounceMs === debounceMs && existing.maxBurst === maxBurst) {
+    return existing.queue;
+  }
+  retireInboundQueue(accountId);
+
+  const queue = createSessionQueue<InboundMessage>({
+    debounceMs,
+    maxBurst,
+    process: (_sessionKey, messages) => processInboundTurn(messages),
+  });
+  inboundQueues.set(accountId, { queue, debounceMs, maxBurst });
+  return queue;
+}
+
+/**
+ * Stop taking webhooks for an account and wait for what was accepted: the
+ * deliveries still being processed, then the agent turns of its inbound
+ * queues (current and replaced). The current queue is dropped afterwards.
+ */
+export async function drainInboundQueue(accountId: string): Promise<void> {
+  const intake = getInboundIntake(accountId);
+  intake.state = "closing";
+  await Promise.allSettled(intake.deliveries);
+  intake.state = "closed";
+
+  const entry = inboundQueues.get(accountId);
+  await Promise.all(accountQueues(accountId).map((queue) => queue.drain()));
+
+  // A restarted account may have queued new messages meanwhile
+  if (entry && inboundQueues.get(accountId) === entry && entry.queue.pending === 0) {
+    inboundQueues.delete(accountId);
+  }
+}
+
+/**
+ * Number of inbound messages buffered or being processed for an account
+ */
+export function getPendingInboundCount(accountId: string): number {
+  return accountQueues(accountId).reduce((count, queue) => count + queue.pending, 0);
+}
+
+/**
+ * Drop the state built from an account's previous config. The queue is always
+ * replaced (queued turns finish with the old settings); conversation state
+ * (dedupe keys, tracked sessions) only goes when the website changed, so a
+ * settings change never re-greets visitors.
+ */
+export function resetAccountState(accountId: string, opts: { websiteChanged: boolean }): void {
+  retireInboundQueue(accountId);
+  if (opts.websiteChanged) {
+    recentDeliveries.delete(accountId);
+    clearAccountSessions(accountId);
+  }
+}
+
+/**
+ * Forget the tracked sessions of an account
+ */
+export function clearAccountSessions(accountId: string): void {
+  for (const [sessionId, session] of activeSessions) {
+    if (session.accountId === accountId) activeSessions.delete(sessionId);
   }
 }
 
@@ -165,30 +553,40 @@ async function handleInboundMessage(
   config: CrispConfig,
   clawdbotConfig: ClawdbotConfig,
   accountId: string,
-  payload: CrispWebhookPayload
+  payload: CrispWebhookPayload,
+  requestLog: CrispLogger
 ): Promise<void> {
   const { data } = payload;
 
+  // Operator messages only matter for takeover detection
+  if (data.from === "operator") {
+    handleOperatorMessage(config, accountId, data, requestLog);
+    return;
+  }
+
   // Skip non-user messages
   if (data.from !== "user") {
-    console.log(`[crisp] Skipping message from: ${data.from}`);
+    requestLog.debug("Skipping message", { from: data.from });
     return;
   }
 
   // Skip unsupported message types
-  if (data.type && data.type !== "text" && data.type !== "file") {
-    console.log(`[crisp] Skipping unsupported message type: ${data.type}`);
+  const normalized = normalizeInboundContent(data.type, data.content);
+  if (!normalized) {
+    requestLog.info("Skipping unsupported message type", { type: data.type });
     return;
   }
 
   const sessionId = data.session_id;
   const visitorName = data.user?.nickname || "Visitor";
-  const isFile = data.type === "file";
-  const messageText = isFile ? "[Fichier envoyé]" : (data.content || "");
-  const mediaUrl = isFile ? (data.content || "") : undefined;
+  const messageText = normalized.text;
 
-  console.log(`[crisp] 📩 Message from ${visitorName}: "${messageText}"`);
-  console.log(`[crisp] Session: ${sessionId}, Website: ${data.website_id}`);
+  const logger = requestLog.child({ sessionId, websiteId: data.website_id });
+  logger.info("Visitor message received", {
+    visitor: redactText(visitorName, config.redaction),
+    type: normalized.type,
+    body: logBody(redactText(messageText, config.redaction)),
+  });
 
   // Track session for deduplication
   const session = trackSession(
@@ -200,52 +598,266 @@ async function handleInboundMessage(
   );
 
   if (session.isNew) {
-    console.log(`[crisp] 🆕 New conversation started`);
+    logger.info("New conversation started");
+
+    if (config.notifyOnNew && config.notifyTarget) {
+      void announceNewConversation(
+        config,
+        accountId,
+        sessionId,
+        data.website_id,
+        visitorName,
+        messageText,
+        logger
+      );
+    }
   }
 
   // Skip if auto-reply is disabled and not in approval mode
   if (!config.autoReply && !config.approvalMode) {
-    console.log(`[crisp] Auto-reply disabled, message logged only`);
+    logger.info("Auto-reply disabled, message logged only");
+    return;
+  }
+
+  // A human is handling this conversation
+  const takeover = getTakeoverState(sessionId);
+  if (takeover) {
+    logger.info("Session paused, not auto-replying", { reason: takeover.reason });
+    return;
+  }
+
+
+  const queue = getInboundQueue(accountId, config);
+  if (!queue) {
+    logger.warn("Account stopped, message not queued");
+    return;
+  }
+
+  // Serialize (and optionally batch) agent turns per conversation
+  queue.enqueue(sessionId, {
+    config,
+    clawdbotConfig,
+    accountId,
+    sessionId,
+    websiteId: data.website_id,
+    visitorName,
+    type: normalized.type,
+    text: messageText,
+    media: normalized.media,
+    details: normalized.details,
+    fingerprint: data.fingerprint,
+    timestamp: data.timestamp ? data.timestamp * 1000 : Date.now(),
+    isNewSession: session.isNew,
+    requestId: requestLog.context.requestId,
+  });
+}
+
+/**
+ * Get the visitor's preferred language from the browser (looked up once per session)
+ */
+async function resolveVisitorLocale(
+  session: CrispSessionState | undefined,
+  loadConversation: () => Promise<CrispConversation | undefined>
+): Promise<string | undefined> {
+  if (session?.visitorLocale) return session.visitorLocale;
+
+  const locale = (await loadConversation())?.meta?.device?.locales?.[0];
+  if (session && locale) {
+    session.visitorLocale = locale;
+  }
+  return locale;
+}
+
+/**
+ * Run one agent turn for a burst of visitor messages from the same session
+ */
+async function processInboundTurn(messages: InboundMessage[]): Promise<void> {
+  const latest = messages[messages.length - 1];
+  const { config, clawdbotConfig, accountId, sessionId, websiteId, visitorName } = latest;
+  const logger = log.child({ accountId, sessionId, websiteId, requestId: latest.requestId });
+
+  const messageText = messages.map((msg) => msg.text).filter(Boolean).join("\n");
+  const contentDetails = messages.flatMap((msg) => (msg.details ? [{ type: msg.type, ...msg.details }] : []));
+  const fingerprints = new Set(
+    messages.flatMap((msg) => (msg.fingerprint !== undefined ? [msg.fingerprint] : []))
+  );
+
+  if (messages.length > 1) {
+    logger.info("Merged messages into one turn", { count: messages.length });
+  }
+
+  // An operator may have joined while the messages were queued
+  if (getTakeoverState(sessionId)) {
+    logger.info("Session taken over while queued, skipping turn");
     return;
   }
 
   // Check runtime
   if (!hasCrispRuntime()) {
-    console.error(`[crisp] ❌ Runtime not available`);
+    logger.error("Runtime not available");
     return;
   }
 
   const core = getCrispRuntime();
-  const client = createCrispClient({
-    apiKeyId: config.apiKeyId,
-    apiKeySecret: config.apiKeySecret,
-  });
+  const client = createCrispClientFromConfig(config);
+  const session = activeSessions.get(sessionId);
+
+  // Fetched at most once per turn, shared by templates, profile and language
+  let conversation: Promise<CrispConversation | undefined> | undefined;
+  const loadConversation = () =>
+    (conversation ??= client.getConversation(websiteId, sessionId).catch((err) => {
+      logger.warn("Failed to fetch conversation", { error: err });
+      return undefined;
+    }));
+
+  // Business hours and operator availability (approval mode always involves a human).
+  // Decided in the queue, so messages of one conversation keep their order.
+  if (config.autoReply && !config.approvalMode) {
+    const decision = await evaluateReplyPolicy({ config, client, accountId, websiteId, sessionId });
+
+    if (decision.action === "quiet") {
+      logger.info("Reply policy says stay quiet", { reason: decision.reason });
+      return;
+    }
+
+    if (decision.action === "template") {
+      try {
+        await sendTemplateMessage({
+          client,
+          config,
+          template: config.autoReplyMessage,
+          websiteId,
+          sessionId,
+          visitorName,
+          session,
+          conversation: await loadConversation(),
+        });
+        markOutOfHoursTemplateSent(accountId, sessionId);
+        logger.info("Sent out-of-hours message");
+      } catch (err) {
+        logger.error("Failed to send out-of-hours message", { error: err });
+      }
+      return;
+    }
+
+    // Greet new visitors before the agent answers
+    if (messages.some((msg) => msg.isNewSession) && config.greetingMessage) {
+      try {
+        await sendTemplateMessage({
+          client,
+          config,
+          template: config.greetingMessage,
+          websiteId,
+          sessionId,
+          visitorName,
+          session,
+          conversation: await loadConversation(),
+        });
+        logger.info("Sent greeting");
+      } catch (err) {
+        logger.error("Failed to send greeting", { error: err });
+      }
+    }
+
+    // Let the visitor see the bot picked the messages up
+    if (config.markRead && fingerprints.size > 0) {
+      client.markMessagesRead(websiteId, sessionId, Array.from(fingerprints)).catch((err) => {
+        logger.warn("Failed to mark messages as read", { error: err });
+      });
+    }
+  }
+
+  // The visitor explicitly asked for a human
+  const keyword = matchHandoffKeyword(messageText, config.handoffKeywords);
+  if (keyword) {
+    await performHandoff({
+      client,
+      config,
+      accountId,
+      websiteId,
+      sessionId,
+      reason: t(config.locale, "handoff.keywordReason", { keyword }),
+      trigger: "keyword",
+    });
+    return;
+  }
+
+  // Personal data never reaches the model, logs or Telegram in clear
+  const modelText = redactText(messageText, config.redaction, sessionId);
+  const senderName = redactText(visitorName, config.redaction, sessionId);
+
+  // Download attachments so the agent gets local media paths
+  const media: Array<InboundMedia & { path?: string }> = [];
+  for (const msg of messages) {
+    if (!msg.media) continue;
+    try {
+      media.push(await saveInboundMedia(core, msg.media, config.mediaMaxMb * 1024 * 1024));
+    } catch (err) {
+      logger.warn("Failed to download attachment", { kind: msg.media.kind, error: err });
+      media.push(msg.media);
+    }
+  }
+  const savedMedia = media.filter((item) => item.path);
 
   // Fetch conversation history for AI context
   let historyText = "";
   if (config.historyLimit > 0) {
     try {
-      const messages = await client.getMessages(
-        data.website_id,
+      const recent = await client.getMessages(
+        websiteId,
         sessionId,
         { limit: config.historyLimit }
       );
-      const history = messages
-        .reverse()
-        .slice(0, -1)
-        .map((msg) => `${msg.from === "user" ? visitorName : config.operatorName}: ${msg.content}`)
+      // Leave out the messages of this turn
+      const previous = recent.reverse();
+      const history = (fingerprints.size > 0
+        ? previous.filter((msg) => !fingerprints.has(msg.fingerprint))
+        : previous.slice(0, -1))
+        .filter((msg) => isConversationMessage(msg.type))
+        .map((msg) => {
+          const line = redactText(summarizeMessageContent(msg.type, msg.content), config.redaction, sessionId);
+          return `${msg.from === "user" ? senderName : config.operatorName}: ${line}`;
+        })
         .join("\n");
       if (history) {
         historyText = `\n\n[Previous messages]\n${history}\n[End of history]`;
       }
     } catch (err) {
-      console.warn(`[crisp] Failed to fetch history: ${err}`);
+      logger.warn("Failed to fetch history", { error: err });
+    }
+  }
+
+  // Build body with optional media placeholders
+  const mediaPlaceholder = media.map((item) => ` <media:${item.kind}>`).join("");
+  const body = `${modelText}${mediaPlaceholder}${historyText}`;
+
+  // What the agent may know about the visitor
+  let visitorProfile: VisitorProfile | undefined;
+  const current = config.visitorProfile.enabled ? await loadConversation() : undefined;
+  if (current) {
+    try {
+      const loaded = await loadVisitorProfile({
+        client,
+        allow: config.visitorProfile,
+        websiteId,
+        sessionId,
+        session,
+        conversation: current,
+      });
+      visitorProfile = loaded.profile;
+    } catch (err) {
+      logger.warn("Failed to load visitor profile", { error: err });
     }
   }
+  const preamble = visitorProfile ? formatVisitorPreamble(visitorProfile) : "";
 
-  // Build body with optional media placeholder
-  const mediaPlaceholder = mediaUrl ? " <media:file>" : "";
-  const body = `${messageText}${mediaPlaceholder}${historyText}`;
+  // Let the agent answer in the visitor's language
+  const visitorLocale = await resolveVisitorLocale(session, loadConversation);
+  const bodyForAgent = [
+    preamble,
+    body,
+    visitorLocale ? `[Visitor language: ${visitorLocale}. Reply in this language.]` : "",
+  ].filter(Boolean).join("\n\n");
 
   // Resolve agent route
   const route = core.channel.routing.resolveAgentRoute({
@@ -261,84 +873,131 @@ async function handleInboundMessage(
   // Build context payload
   const ctxPayload = {
     Body: body,
-    BodyForAgent: body,
-    RawBody: messageText,
-    CommandBody: messageText,
-    BodyForCommands: messageText,
-    MediaUrl: mediaUrl,
+    BodyForAgent: bodyForAgent,
+    RawBody: modelText,
+    CommandBody: modelText,
+    BodyForCommands: modelText,
+    MediaUrl: media[0]?.url,
+    MediaUrls: media.length > 0 ? media.map((item) => item.url) : undefined,
+    MediaPath: savedMedia[0]?.path,
+    MediaPaths: savedMedia.length > 0 ? savedMedia.map((item) => item.path) : undefined,
+    MediaType: savedMedia[0]?.contentType,
+    MediaTypes: savedMedia.length > 0 ? savedMedia.map((item) => item.contentType) : undefined,
+    CrispMessageType: latest.type,
+    CrispContent: contentDetails.length > 0 ? contentDetails : undefined,
+    VisitorLocale: visitorLocale,
+    VisitorProfile: visitorProfile,
     From: `crisp:${sessionId}`,
     To: `crisp:${sessionId}`,
     SessionKey: route.sessionKey,
     AccountId: route.accountId,
     ChatType: "direct",
-    ConversationLabel: visitorName,
-    SenderName: visitorName,
+    ConversationLabel: senderName,
+    SenderName: senderName,
     SenderId: sessionId,
     Provider: "crisp",
     Surface: "crisp",
-    MessageSid: data.fingerprint?.toString(),
-    Timestamp: data.timestamp ? data.timestamp * 1000 : Date.now(),
+    MessageSid: latest.fingerprint?.toString(),
+    Timestamp: latest.timestamp,
     OriginatingChannel: "crisp",
     OriginatingTo: `crisp:${sessionId}`,
     WasMentioned: true,
     CommandAuthorized: true,
   };
 
+  // Lets the crisp_handoff tool find this conversation
+  registerHandoffSession(route.sessionKey, { config, accountId, websiteId, sessionId });
+
   // =========================================================================
   // APPROVAL MODE: Store message and send Telegram notification
   // =========================================================================
   if (config.approvalMode) {
-    console.log(`[crisp] 🔄 Approval mode: storing for human review...`);
-    
-    // Store the pending reply (without AI proposal - will be generated by main agent)
+    logger.info("Approval mode: storing for human review");
+
+    // In "draft" style the agent proposes the answer; in "notify" style a human writes it
+    const draft = extractHandoffMarker(
+      config.approvalStyle === "notify"
+        ? ""
+        : await generateDraftReply(core, ctxPayload, clawdbotConfig, logger)
+    );
+    const proposedReply = draft.text;
+
+    if (draft.reason !== null) {
+      await performHandoff({
+        client,
+        config,
+        accountId,
+        websiteId,
+        sessionId,
+        reason: draft.reason,
+        trigger: "marker",
+      });
+      return;
+    }
+
+    // The agent may have called crisp_handoff (or an operator took over) while drafting
+    const takeover = getTakeoverState(sessionId);
+    if (takeover) {
+      logger.info("Conversation taken over while drafting, no approval needed", { reason: takeover.reason });
+      return;
+    }
+
+    // The values restore the draft on approval; the names outlive a restart,
+    // so a draft whose values were lost is refused instead of misrestored
+    const redactions = exportRedactions(sessionId);
     const pending = storePendingReply({
       crispSessionId: sessionId,
-      crispWebsiteId: data.website_id,
-      visitorName,
-      visitorMessage: messageText,
-      proposedReply: "", // Will be filled by main agent
+      crispWebsiteId: websiteId,
+      visitorName: senderName,
+      visitorMessage: modelText,
+      proposedReply,
       accountId,
+      redactions,
+      placeholders: redactions && Object.keys(redactions),
     });
 
-    console.log(`[crisp] 📋 Stored pending message [${pending.id}]`);
-    console.log(`[crisp] 👤 From: ${visitorName}`);
-    console.log(`[crisp] 💬 Message: "${messageText}"`);
+    const pendingLog = logger.child({ pendingId: pending.id });
+    pendingLog.info("Stored pending message", { visitor: senderName, body: logBody(modelText) });
 
     // Send Telegram notification if configured
     if (config.telegramBotToken && config.approvalChatId) {
       try {
         const result = await sendTelegramNotification({
           botToken: config.telegramBotToken,
+          apiBaseUrl: config.telegramApiBaseUrl,
           chatId: config.approvalChatId,
           pendingId: pending.id,
-          visitorName,
-          visitorMessage: messageText,
+          visitorName: senderName,
+          visitorMessage: modelText,
+          proposedReply,
+          locale: config.locale,
         });
         
         if (result.ok && result.messageId) {
-          console.log(`[crisp] 📱 Telegram notification sent (msg ${result.messageId})`);
+          pendingLog.info("Telegram notification sent", { messageId: result.messageId });
           // Store telegram message ID for reply detection
           updatePendingReplyTelegram(pending.id, String(result.messageId), config.approvalChatId!);
         } else {
-          console.error(`[crisp] ❌ Telegram notification failed: ${result.error}`);
+          pendingLog.error("Telegram notification failed", { error: result.error });
         }
       } catch (err) {
-        console.error(`[crisp] ❌ Failed to send Telegram notification:`, err);
+        pendingLog.error("Failed to send Telegram notification", { error: err });
       }
     } else {
-      console.log(`[crisp] ⚠️ Telegram not configured, skipping notification`);
+      pendingLog.warn("Telegram not configured, emitting a system event instead");
       // Fallback: emit system event
       try {
         core.system.enqueueSystemEvent(
-          `🆕 CRISP_MESSAGE [${pending.id}] from "${visitorName}": "${messageText}"`,
+          `🆕 CRISP_MESSAGE [${pending.id}] from "${senderName}": "${modelText}"` +
+            (proposedReply ? ` (draft: "${proposedReply}")` : ""),
           {
             sessionKey: route.sessionKey,
             contextKey: `crisp:pending:${pending.id}`,
           }
         );
-        console.log(`[crisp] 📤 System event emitted for [${pending.id}]`);
+        pendingLog.info("System event emitted");
       } catch (err) {
-        console.error(`[crisp] ❌ Failed to emit system event:`, err);
+        pendingLog.error("Failed to emit system event", { error: err });
       }
     }
 
@@ -348,33 +1007,139 @@ async function handleInboundMessage(
   // =========================================================================
   // AUTO-REPLY MODE: Send AI response directly
   // =========================================================================
+  const typing = config.typingIndicator
+    ? startTypingIndicator(client, websiteId, sessionId, logger)
+    : null;
+
   try {
     await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
       ctx: ctxPayload,
       cfg: clawdbotConfig,
       dispatcherOptions: {
         deliver: async (payload: { text?: string; mediaUrls?: string[]; mediaUrl?: string }) => {
-          const text = payload.text?.trim();
-          if (!text) return;
+          await typing?.stop();
 
-          await client.sendMessage({
-            websiteId: data.website_id,
-            sessionId,
-            content: text,
+          // Handed off (e.g. via the crisp_handoff tool) earlier in this turn
+          if (getTakeoverState(sessionId)?.reason === "handoff") {
+            logger.info("Session handed off, dropping reply");
+            return;
+          }
+
+          const marker = extractHandoffMarker(payload.text ?? "");
+          const sent = await sendAgentReply(client, websiteId, sessionId, {
+            ...payload,
+            text: marker.text,
           });
-          console.log(`[crisp] ✅ Sent AI reply to ${sessionId}`);
+          if (sent > 0) {
+            logger.info("Sent AI reply", { messages: sent, body: logBody(marker.text) });
+          }
 
-          if (config.resolveOnReply) {
-            await client.updateConversationState(data.website_id, sessionId, "resolved");
+          if (marker.reason !== null) {
+            await performHandoff({
+              client,
+              config,
+              accountId,
+              websiteId,
+              sessionId,
+              reason: marker.reason,
+              trigger: "marker",
+            });
+            return;
+          }
+
+          if (sent > 0 && config.resolveOnReply) {
+            await client.updateConversationState(websiteId, sessionId, "resolved");
           }
         },
         onError: (err: unknown) => {
-          console.error(`[crisp] ❌ Reply dispatch error:`, err);
+          logger.error("Reply dispatch error", { error: err });
         },
       },
     });
   } catch (err) {
-    console.error(`[crisp] ❌ Failed to handle message:`, err);
+    logger.error("Failed to handle message", { error: err });
+  } finally {
+    await typing?.stop();
+  }
+}
+
+/**
+ * Turn a picker selection or field submission (message:updated) into a visitor message
+ */
+function resolveVisitorResponse(data: CrispWebhookData): CrispWebhookData | null {
+  const content = data.content;
+  if (!content || typeof content !== "object") return null;
+
+  if ("choices" in content && content.choices.some((choice) => choice.selected)) {
+    return { ...data, type: "picker", from: "user" };
+  }
+
+  if ("value" in content && typeof content.value === "string" && content.value) {
+    return { ...data, type: "field", from: "user" };
+  }
+
+  return null;
+}
+
+/**
+ * Route a verified webhook event (runs after the HTTP response was sent)
+ */
+async function processWebhookEvent(
+  config: CrispConfig,
+  clawdbotConfig: ClawdbotConfig,
+  accountId: string,
+  body: CrispWebhookPayload,
+  requestLog: CrispLogger
+): Promise<void> {
+  switch (body.event) {
+    case "message:send":
+      await handleInboundMessage(config, clawdbotConfig, accountId, body, requestLog);
+      break;
+
+    case "message:received":
+      // Messages sent from the operator side (ours are recognized and ignored)
+      if (body.data.from === "operator") {
+        handleOperatorMessage(config, accountId, body.data, requestLog);
+      }
+      break;
+
+    case "message:updated": {
+      // A visitor answering one of our pickers/fields updates that message
+      const response = resolveVisitorResponse(body.data);
+      if (response) {
+        await handleInboundMessage(config, clawdbotConfig, accountId, { ...body, data: response }, requestLog);
+      }
+      break;
+    }
+
+    case "session:set_state":
+      requestLog.info("Conversation state changed", { sessionId: body.data.session_id, state: body.data.state });
+      break;
+
+    case "session:set_routing":
+      // Conversation assigned to a human operator
+      if (config.takeoverDetection && body.data.assigned?.user_id) {
+        pauseSession({
+          accountId,
+          sessionId: body.data.session_id,
+          reason: "assignment",
+          cooldownMs: resolveTakeoverCooldownMs(config),
+          operator: body.data.assigned.user_id,
+        });
+        requestLog.info("Assigned to an operator, auto-replies paused", { sessionId: body.data.session_id });
+      }
+      break;
+
+    case "session:set_email": {
+      const session = activeSessions.get(body.data.session_id);
+      if (session && body.data.email) {
+        session.visitorEmail = body.data.email;
+      }
+      break;
+    }
+
+    default:
+      requestLog.debug("Unhandled event", { event: body.event });
   }
 }
 
@@ -386,10 +1151,10 @@ export async function handleCrispWebhookRequest(
   res: ServerResponse,
   config: CrispConfig,
   clawdbotConfig: ClawdbotConfig,
-  accountId: string
+  accountId: string,
+  /** Body already read by the router (shared paths) */
+  preloadedBody?: string
 ): Promise<boolean> {
-  console.log(`[crisp] Webhook request: ${req.method} ${req.url}`);
-
   // Only handle POST requests
   if (req.method !== "POST") {
     return false;
@@ -397,58 +1162,109 @@ export async function handleCrispWebhookRequest(
 
   // Check if this is our webhook path
   const url = new URL(req.url ?? "", `http://${req.headers.host}`);
-  const webhookPath = resolveWebhookPath(config);
-  
-  if (!url.pathname.startsWith(webhookPath)) {
+  const webhookPath = normalizeWebhookPath(resolveWebhookPath(config));
+
+  if (normalizeWebhookPath(url.pathname) !== webhookPath) {
     return false;
   }
 
+  // Never log the query string: it may carry the webhook secret
+  const requestLog = log.child({ accountId, requestId: createRequestId() });
+  requestLog.debug("Webhook request", { method: req.method, path: url.pathname });
+
+  const verification = config.webhookVerification ?? "secret";
+
   // Validate webhook secret
-  if (!validateWebhookSecret(url, config.webhookSecret)) {
-    console.warn(`[crisp] Invalid webhook secret from ${req.socket.remoteAddress}`);
+  if (verification !== "signature" && !validateWebhookSecret(url, config.webhookSecret)) {
+    requestLog.warn("Invalid webhook secret", { remoteAddress: req.socket.remoteAddress });
     res.writeHead(401, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ error: "Invalid secret" }));
     return true;
   }
 
   try {
-    // Parse body
-    const body = await parseJsonBody(req) as CrispWebhookPayload;
+    const rawBody = preloadedBody ?? await readRawBody(req);
 
-    console.log(`[crisp] Received webhook: ${body.event}`);
+    // Validate webhook signature
+    if (verification !== "secret") {
+      const check = validateWebhookSignature(
+        req,
+        rawBody,
+        config.webhookSigningSecret,
+        config.webhookMaxSkewSeconds
+      );
+      if (!check.ok) {
+        requestLog.warn("Invalid webhook signature", {
+          remoteAddress: req.socket.remoteAddress,
+          reason: check.reason,
+        });
+        res.writeHead(401, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid signature" }));
+        return true;
+      }
+    }
 
-    // Route by event type
-    switch (body.event) {
-      case "message:send":
-        await handleInboundMessage(config, clawdbotConfig, accountId, body);
-        break;
+    // Parse body
+    const body = parseJson(rawBody) as CrispWebhookPayload;
 
-      case "message:received":
-        // This is when our message was received by Crisp, ignore
-        break;
+    requestLog.info("Received webhook", { event: body.event });
 
-      case "session:set_state":
-        console.log(`[crisp] Conversation ${body.data.session_id} state: ${body.data.state}`);
-        break;
+    // A valid secret for this account does not make another website's events ours
+    const payloadWebsiteId = body.website_id ?? body.data?.website_id;
+    if (payloadWebsiteId && payloadWebsiteId !== config.websiteId) {
+      requestLog.warn("Webhook for another website ignored", { payloadWebsiteId });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ok: true, ignored: true }));
+      return true;
+    }
 
-      case "session:set_email":
-        const session = activeSessions.get(body.data.session_id);
-        if (session && body.data.email) {
-          session.visitorEmail = body.data.email;
-        }
-        break;
+    // Checked before the dedupe key is recorded, so Crisp's retry is not dropped
+    const intake = getInboundIntake(accountId);
+    if (intake.state !== "open") {
+      requestLog.info("Account stopping, webhook refused");
+      res.writeHead(503, { "Content-Type": "application/json", "Retry-After": "30" });
+      res.end(JSON.stringify({ error: "Account not running" }));
+      return true;
+    }
 
-      default:
-        console.log(`[crisp] Unhandled event: ${body.event}`);
+    // Drop redeliveries of a message we already accepted
+    const dedupeKey = body.event === "message:send" || body.event === "message:updated"
+      ? buildMessageDedupeKey(
+          accountId,
+          body.data?.session_id,
+          body.data?.fingerprint,
+          body.event === "message:updated" ? "updated" : undefined
+        )
+      : null;
+    if (dedupeKey && getDeliveryCache(accountId).check(dedupeKey)) {
+      requestLog.info("Duplicate delivery ignored", { dedupeKey });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ok: true, duplicate: true }));
+      return true;
     }
 
-    // Always return 200 to Crisp
+    // Acknowledge right away so agent latency never triggers Crisp retries
     res.writeHead(200, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ ok: true }));
+
+    // Tracked so stopping the account waits for it
+    trackDelivery(
+      intake,
+      processWebhookEvent(config, clawdbotConfig, accountId, body, requestLog).catch((err) => {
+        requestLog.error("Failed to process webhook event", { event: body.event, error: err });
+      })
+    );
+
     return true;
 
   } catch (err) {
-    console.error(`[crisp] Webhook error:`, err);
+    if (err instanceof WebhookBodyTooLargeError) {
+      requestLog.warn("Webhook body too large", { remoteAddress: req.socket.remoteAddress });
+      res.writeHead(413, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Payload too large" }));
+      return true;
+    }
+    requestLog.error("Webhook error", { error: err });
     res.writeHead(500, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ error: "Internal error" }));
     return true;
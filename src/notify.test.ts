@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { RedactionSchema } from "./types.js";
+import { formatNewConversationNotification, notifyNewConversation, parseNotifyTarget } from "./notify.js";
+import { createFakeRuntime } from "../test/fake-runtime.js";
+
+const WEBSITE_ID = "11111111-1111-4111-8111-111111111111";
+
+describe("parseNotifyTarget", () => {
+  it("splits the channel from the recipient on the first colon", () => {
+    expect(parseNotifyTarget("telegram:123456")).toEqual({ channel: "telegram", to: "123456" });
+    expect(parseNotifyTarget(" Slack : #support:urgent ")).toEqual({ channel: "slack", to: "#support:urgent" });
+  });
+
+  it("rejects targets without a channel or a recipient", () => {
+    expect(parseNotifyTarget("123456")).toBeNull();
+    expect(parseNotifyTarget(":123456")).toBeNull();
+    expect(parseNotifyTarget("telegram:")).toBeNull();
+  });
+});
+
+describe("formatNewConversationNotification", () => {
+  it("lists the visitor, the first message and a dashboard link", () => {
+    const text = formatNewConversationNotification({
+      websiteId: WEBSITE_ID,
+      sessionId: "session_notify_format",
+      visitorName: "Vera",
+      firstMessage: "Hello",
+      meta: { email: "vera@example.com", device: { geolocation: { country: "France", city: "Lyon" } } },
+      locale: "fr",
+    });
+
+    expect(text.split("\n")).toEqual([
+      "🆕 Nouvelle conversation Crisp",
+      "👤 Vera",
+      "✉️ vera@example.com",
+      "🌍 Lyon, France",
+      '💬 "Hello"',
+      `🔗 https://app.crisp.chat/website/${WEBSITE_ID}/inbox/session_notify_format`,
+    ]);
+  });
+
+  it("leaves out the details Crisp does not know", () => {
+    const text = formatNewConversationNotification({
+      websiteId: WEBSITE_ID,
+      sessionId: "session_notify_bare",
+      visitorName: "Vera",
+      firstMessage: "Hello",
+    });
+
+    expect(text).not.toContain("✉️");
+    expect(text).not.toContain("🌍");
+  });
+
+  it("redacts every visitor field", () => {
+    const redaction = RedactionSchema.parse({
+      detectors: ["email", "phone"],
+      customPatterns: [{ name: "place", pattern: "Lyon|France" }],
+      reversible: ["email"],
+    });
+
+    const text = formatNewConversationNotification({
+      websiteId: WEBSITE_ID,
+      sessionId: "session_notify_redact",
+      visitorName: "visitor",
+      firstMessage: "Call me on +33 6 12 34 56 78 or write to jane@example.com",
+      meta: {
+        nickname: "jane@example.com",
+        email: "jane@example.com",
+        device: { geolocation: { country: "France", city: "Lyon" } },
+      },
+      redaction,
+    });
+
+    expect(text).not.toMatch(/jane@example\.com|\+33|Lyon|France/);
+    expect(text).toContain("👤 [EMAIL_1]");
+    expect(text).toContain("✉️ [EMAIL_1]");
+    expect(text).toContain("🌍 [PLACE], [PLACE]");
+    expect(text).toContain('💬 "Call me on [PHONE] or write to [EMAIL_1]"');
+  });
+});
+
+describe("notifyNewConversation", () => {
+  const params = {
+    accountId: "default",
+    websiteId: WEBSITE_ID,
+    visitorName: "Vera",
+    firstMessage: "Hello",
+  };
+
+  it("sends through the target channel once per conversation", async () => {
+    const { runtime, notifications } = createFakeRuntime();
+
+    const first = await notifyNewConversation({ ...params, core: runtime, notifyTarget: "slack:#support", sessionId: "session_notify_once" });
+    const second = await notifyNewConversation({ ...params, core: runtime, notifyTarget: "slack:#support", sessionId: "session_notify_once" });
+
+    expect(first).toEqual({ ok: true });
+    expect(second).toEqual({ ok: true, skipped: true });
+    expect(notifications).toEqual([{ channel: "slack", to: "#support", text: expect.stringContaining("👤 Vera") }]);
+  });
+
+  it("reports invalid targets and unsupported channels", async () => {
+    const { runtime, notifications } = createFakeRuntime();
+
+    const invalid = await notifyNewConversation({ ...params, core: runtime, notifyTarget: "telegram", sessionId: "session_notify_invalid" });
+    const unsupported = await notifyNewConversation({ ...params, core: runtime, notifyTarget: "fax:0123", sessionId: "session_notify_fax" });
+
+    expect(invalid).toEqual({ ok: false, error: expect.stringContaining("Invalid notifyTarget") });
+    expect(unsupported).toEqual({ ok: false, error: 'Unsupported notify channel "fax"' });
+    expect(notifications).toEqual([]);
+  });
+});
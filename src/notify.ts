@@ -0,0 +1,122 @@
+/**
+ * New Conversation Notifications
+ *
+ * Alerts another channel (notifyTarget, e.g. "telegram:123456") through the
+ * host's outbound senders when a visitor starts a new Crisp conversation.
+ */
+
+import type { PluginRuntime } from "clawdbot/plugin-sdk";
+import { truncateText, type CrispConversation, type RedactionConfig } from "./types.js";
+import { buildCrispDashboardUrl } from "./dashboard.js";
+import { createDedupeCache } from "./dedupe.js";
+import { redactText } from "./redaction.js";
+import { t, type Locale } from "./i18n.js";
+
+export interface NotifyTarget {
+  channel: string;
+  to: string;
+}
+
+type ChannelSender = (core: PluginRuntime, to: string, text: string) => Promise<unknown>;
+
+const CHANNEL_SENDERS: Record<string, ChannelSender> = {
+  telegram: (core, to, text) => core.channel.telegram.sendMessageTelegram(to, text),
+  discord: (core, to, text) => core.channel.discord.sendMessageDiscord(to, text),
+  slack: (core, to, text) => core.channel.slack.sendMessageSlack(to, text),
+  signal: (core, to, text) => core.channel.signal.sendMessageSignal(to, text),
+  imessage: (core, to, text) => core.channel.imessage.sendMessageIMessage(to, text),
+  whatsapp: (core, to, text) => core.channel.whatsapp.sendMessageWhatsApp(to, text, { verbose: false }),
+};
+
+// Sessions already announced (one notification per conversation)
+const notifiedSessions = createDedupeCache({
+  maxEntries: 5000,
+  ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+});
+
+/**
+ * Parse a notify target such as "telegram:123456" (split on the first colon)
+ */
+export function parseNotifyTarget(target: string): NotifyTarget | null {
+  const index = target.indexOf(":");
+  if (index <= 0) return null;
+
+  const channel = target.slice(0, index).trim().toLowerCase();
+  const to = target.slice(index + 1).trim();
+  if (!channel || !to) return null;
+
+  return { channel, to };
+}
+
+/**
+ * Format the new conversation alert. Every visitor field goes through the
+ * conversation's redaction, so the alert shows the placeholders the model sees.
+ */
+export function formatNewConversationNotification(params: {
+  websiteId: string;
+  sessionId: string;
+  visitorName: string;
+  firstMessage: string;
+  meta?: CrispConversation["meta"];
+  locale?: Locale;
+  redaction?: RedactionConfig;
+}): string {
+  const { websiteId, sessionId, meta, locale } = params;
+  const redact = (text: string | undefined) => (text ? redactText(text, params.redaction, sessionId) : text);
+
+  const visitorName = redact(meta?.nickname || params.visitorName);
+  const firstMessage = redact(params.firstMessage) ?? "";
+  const email = redact(meta?.email);
+  const country = redact(meta?.device?.geolocation?.country);
+  const city = redact(meta?.device?.geolocation?.city);
+
+  const lines = [
+    t(locale, "notify.newConversation"),
+    `👤 ${visitorName}`,
+    email ? `✉️ ${email}` : null,
+    country ? `🌍 ${city ? `${city}, ${country}` : country}` : null,
+    `💬 "${truncateText(firstMessage, 500)}"`,
+    `🔗 ${buildCrispDashboardUrl(websiteId, sessionId)}`,
+  ];
+
+  return lines.filter((line): line is string => line !== null).join("\n");
+}
+
+/**
+ * Notify the configured target about a new conversation (at most once per session)
+ */
+export async function notifyNewConversation(params: {
+  core: PluginRuntime;
+  accountId: string;
+  notifyTarget: string;
+  websiteId: string;
+  sessionId: string;
+  visitorName: string;
+  firstMessage: string;
+  meta?: CrispConversation["meta"];
+  locale?: Locale;
+  redaction?: RedactionConfig;
+}): Promise<{ ok: boolean; skipped?: boolean; error?: string }> {
+  const { core, accountId, notifyTarget, sessionId } = params;
+
+  const target = parseNotifyTarget(notifyTarget);
+  if (!target) {
+    return { ok: false, error: `Invalid notifyTarget "${notifyTarget}" (expected <channel>:<to>)` };
+  }
+
+  const send = CHANNEL_SENDERS[target.channel];
+  if (!send) {
+    return { ok: false, error: `Unsupported notify channel "${target.channel}"` };
+  }
+
+  if (notifiedSessions.check(`${accountId}:${sessionId}`)) {
+    return { ok: true, skipped: true };
+  }
+
+  try {
+    await send(core, target.to, formatNewConversationNotification(params));
+    return { ok: true };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -0,0 +1,147 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createFilePendingReplyStore,
+  createMemoryPendingReplyStore,
+  findPendingReplyByTelegramMessage,
+  getAllPendingReplies,
+  getPendingReply,
+  initPendingReplyStore,
+  purgeExpiredPendingReplies,
+  removePendingReply,
+  storePendingReply,
+  updatePendingReplyTelegram,
+  type PendingReply,
+} from "./pending-replies.js";
+
+const tmpDirs: string[] = [];
+
+afterEach(() => {
+  vi.useRealTimers();
+  while (tmpDirs.length > 0) fs.rmSync(tmpDirs.pop()!, { recursive: true, force: true });
+});
+
+function tmpFile(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "crisp-pending-"));
+  tmpDirs.push(dir);
+  return path.join(dir, "state", "pending-replies.json");
+}
+
+function pendingReply(overrides: Partial<PendingReply> = {}): PendingReply {
+  return {
+    id: "ABCD2345",
+    crispSessionId: "session_pending",
+    crispWebsiteId: "11111111-1111-4111-8111-111111111111",
+    visitorName: "Vera",
+    visitorMessage: "Write to [EMAIL_1]",
+    proposedReply: "Sure, we will write to [EMAIL_1].",
+    createdAt: 1_700_000_000_000,
+    accountId: "default",
+    ...overrides,
+  };
+}
+
+function pendingParams(): Omit<PendingReply, "id" | "createdAt"> {
+  const { id: _id, createdAt: _createdAt, ...params } = pendingReply();
+  return params;
+}
+
+describe("createFilePendingReplyStore", () => {
+  it("reloads entries written by a previous process", () => {
+    const filePath = tmpFile();
+    initPendingReplyStore({ store: createFilePendingReplyStore(filePath) });
+    const stored = storePendingReply(pendingParams());
+    updatePendingReplyTelegram(stored.id, "501", "4242");
+
+    const outstanding = initPendingReplyStore({ store: createFilePendingReplyStore(filePath) });
+
+    expect(outstanding).toEqual([{ ...stored, telegramMessageId: "501", telegramChatId: "4242" }]);
+    expect(findPendingReplyByTelegramMessage("501", "4242")?.id).toBe(stored.id);
+  });
+
+  it("leaves no temporary file behind", () => {
+    const filePath = tmpFile();
+    const store = createFilePendingReplyStore(filePath);
+    store.load();
+
+    store.set(pendingReply());
+    store.delete("ABCD2345");
+
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(["pending-replies.json"]);
+    expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toEqual([]);
+  });
+
+  it("starts empty from a missing or corrupt file", () => {
+    const filePath = tmpFile();
+    expect(createFilePendingReplyStore(filePath).load()).toEqual([]);
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, "{ not json");
+    expect(createFilePendingReplyStore(filePath).load()).toEqual([]);
+  });
+
+  it("keeps placeholder values out of the file", () => {
+    const filePath = tmpFile();
+    const store = createFilePendingReplyStore(filePath);
+    store.load();
+
+    store.set(pendingReply({ redactions: { "[EMAIL_1]": "vera@example.com" }, placeholders: ["[EMAIL_1]"] }));
+
+    expect(fs.readFileSync(filePath, "utf8")).not.toContain("vera@example.com");
+    expect(store.get("ABCD2345")?.redactions).toEqual({ "[EMAIL_1]": "vera@example.com" });
+
+    const reloaded = createFilePendingReplyStore(filePath).load();
+    expect(reloaded).toEqual([pendingReply({ placeholders: ["[EMAIL_1]"] })]);
+  });
+
+  it.skipIf(process.platform === "win32")("writes the file readable by its owner only", () => {
+    const filePath = tmpFile();
+    const store = createFilePendingReplyStore(filePath);
+    store.load();
+
+    store.set(pendingReply());
+
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+  });
+});
+
+describe("pending replies", () => {
+  it("finds entries case-insensitively and removes them once", () => {
+    initPendingReplyStore({ store: createMemoryPendingReplyStore() });
+    const stored = storePendingReply(pendingParams());
+
+    expect(stored.id).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+    expect(getPendingReply(stored.id.toLowerCase())).toEqual(stored);
+    expect(removePendingReply(stored.id)).toBe(true);
+    expect(removePendingReply(stored.id)).toBe(false);
+    expect(getPendingReply(stored.id)).toBeNull();
+  });
+
+  it("matches Telegram messages within their chat only", () => {
+    initPendingReplyStore({ store: createMemoryPendingReplyStore() });
+    const stored = storePendingReply(pendingParams());
+    updatePendingReplyTelegram(stored.id, "501", "4242");
+
+    expect(findPendingReplyByTelegramMessage("501", "4242")?.id).toBe(stored.id);
+    expect(findPendingReplyByTelegramMessage("501", "9999")).toBeNull();
+    expect(findPendingReplyByTelegramMessage("502", "4242")).toBeNull();
+  });
+
+  it("expires entries after the TTL, including ones reloaded from disk", () => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    const filePath = tmpFile();
+    initPendingReplyStore({ store: createFilePendingReplyStore(filePath), ttlMs: 60_000 });
+    const stored = storePendingReply(pendingParams());
+
+    vi.advanceTimersByTime(61_000);
+    expect(getPendingReply(stored.id)).toBeNull();
+    expect(getAllPendingReplies()).toEqual([]);
+
+    storePendingReply(pendingParams());
+    vi.advanceTimersByTime(61_000);
+    expect(initPendingReplyStore({ store: createFilePendingReplyStore(filePath), ttlMs: 60_000 })).toEqual([]);
+    expect(purgeExpiredPendingReplies()).toBe(0);
+  });
+});
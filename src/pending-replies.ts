@@ -1,9 +1,15 @@
 /**
  * Pending Replies Store
- * 
+ *
  * Stores Crisp messages waiting for human approval before sending reply.
+ * Entries live in a pluggable backend so approvals survive gateway restarts.
  */
 
+import { randomBytes } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { log } from "./logger.js";
+
 export interface PendingReply {
   id: string;
   crispSessionId: string;
@@ -15,42 +21,197 @@ export interface PendingReply {
   telegramChatId?: string;
   createdAt: number;
   accountId: string;
+  /** Values of the conversation's reversible placeholders (never written to disk) */
+  redactions?: Record<string, string>;
+  /** Placeholders the conversation had when the reply was held, without their values */
+  placeholders?: string[];
+}
+
+/**
+ * Storage backend for pending replies
+ */
+export interface PendingReplyStore {
+  /**
+   * Read all persisted entries (called once when the store is installed)
+   */
+  load(): PendingReply[];
+
+  get(id: string): PendingReply | undefined;
+
+  set(pending: PendingReply): void;
+
+  delete(id: string): boolean;
+
+  values(): PendingReply[];
+}
+
+// Default TTL for pending replies (1 hour)
+export const DEFAULT_PENDING_REPLY_TTL_MS = 60 * 60 * 1000;
+
+// Unambiguous uppercase alphabet (no 0/O, 1/I); 32 symbols keeps random bytes unbiased
+const ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ID_LENGTH = 8;
+const ID_MAX_ATTEMPTS = 16;
+
+/**
+ * Create an in-memory store (lost on restart, used in tests)
+ */
+export function createMemoryPendingReplyStore(): PendingReplyStore {
+  const entries = new Map<string, PendingReply>();
+
+  return {
+    load: () => Array.from(entries.values()),
+    get: (id) => entries.get(id),
+    set: (pending) => {
+      entries.set(pending.id, pending);
+    },
+    delete: (id) => entries.delete(id),
+    values: () => Array.from(entries.values()),
+  };
+}
+
+/**
+ * Create a store persisted as a JSON file.
+ *
+ * Writes go to a temporary file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated store behind.
+ *
+ * Placeholder values (`redactions`) stay in memory: after a restart a draft
+ * only knows its placeholders' names, and the approval handler refuses to
+ * send one it can no longer restore.
+ *
+ * The file holds visitor messages and drafts in clear. Every write creates it
+ * with mode 0600, so only the gateway's user can read it; that is the only
+ * protection, so keep the state directory on a local disk owned by that user
+ * (the mode is ignored on Windows and on some network filesystems).
+ */
+export function createFilePendingReplyStore(filePath: string): PendingReplyStore {
+  const entries = new Map<string, PendingReply>();
+
+  function persist(): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    const persisted = Array.from(entries.values(), ({ redactions: _redactions, ...pending }) => pending);
+    fs.writeFileSync(tmpPath, JSON.stringify(persisted, null, 2), {
+      mode: 0o600,
+    });
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  return {
+    load() {
+      entries.clear();
+      let raw: string;
+      try {
+        raw = fs.readFileSync(filePath, "utf8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+
+      try {
+        const parsed = JSON.parse(raw) as unknown;
+        if (Array.isArray(parsed)) {
+          for (const item of parsed as PendingReply[]) {
+            if (item && typeof item.id === "string") {
+              entries.set(item.id, item);
+            }
+          }
+        }
+      } catch {
+        log.warn("Ignoring corrupt pending replies file", { path: filePath });
+      }
+
+      return Array.from(entries.values());
+    },
+    get: (id) => entries.get(id),
+    set(pending) {
+      entries.set(pending.id, pending);
+      persist();
+    },
+    delete(id) {
+      const deleted = entries.delete(id);
+      if (deleted) persist();
+      return deleted;
+    },
+    values: () => Array.from(entries.values()),
+  };
+}
+
+let store: PendingReplyStore = createMemoryPendingReplyStore();
+let ttlMs = DEFAULT_PENDING_REPLY_TTL_MS;
+
+/**
+ * Install a storage backend and re-hydrate outstanding approvals from it.
+ * Returns the entries that are still awaiting a decision.
+ */
+export function initPendingReplyStore(opts: {
+  store: PendingReplyStore;
+  ttlMs?: number;
+}): PendingReply[] {
+  store = opts.store;
+  ttlMs = opts.ttlMs ?? DEFAULT_PENDING_REPLY_TTL_MS;
+
+  store.load();
+  purgeExpiredPendingReplies();
+
+  return store.values();
 }
 
-// In-memory store for pending replies
-const pendingReplies = new Map<string, PendingReply>();
+/**
+ * Resolve the default on-disk location of the pending replies file
+ */
+export function resolvePendingRepliesPath(stateDir: string): string {
+  return path.join(stateDir, "crisp", "pending-replies.json");
+}
 
-// TTL for pending replies (1 hour)
-const PENDING_REPLY_TTL_MS = 60 * 60 * 1000;
+function isExpired(pending: PendingReply, now = Date.now()): boolean {
+  return now - pending.createdAt > ttlMs;
+}
+
+/**
+ * Drop every entry older than the TTL. Returns the number of removed entries.
+ */
+export function purgeExpiredPendingReplies(): number {
+  const now = Date.now();
+  let removed = 0;
+  for (const pending of store.values()) {
+    if (isExpired(pending, now) && store.delete(pending.id)) {
+      removed += 1;
+    }
+  }
+  return removed;
+}
 
 /**
  * Generate a short unique ID for the pending reply
  */
 function generateId(): string {
-  return Math.random().toString(36).substring(2, 8).toUpperCase();
+  for (let attempt = 0; attempt < ID_MAX_ATTEMPTS; attempt++) {
+    const bytes = randomBytes(ID_LENGTH);
+    let id = "";
+    for (const byte of bytes) {
+      id += ID_ALPHABET[byte % ID_ALPHABET.length];
+    }
+    if (!store.get(id)) return id;
+  }
+  throw new Error("Failed to generate a unique pending reply ID");
 }
 
 /**
  * Store a pending reply
  */
 export function storePendingReply(params: Omit<PendingReply, "id" | "createdAt">): PendingReply {
-  const id = generateId();
+  purgeExpiredPendingReplies();
+
   const pending: PendingReply = {
     ...params,
-    id,
+    id: generateId(),
     createdAt: Date.now(),
   };
-  
-  pendingReplies.set(id, pending);
-  
-  // Cleanup old entries
-  const cutoff = Date.now() - PENDING_REPLY_TTL_MS;
-  for (const [key, value] of pendingReplies) {
-    if (value.createdAt < cutoff) {
-      pendingReplies.delete(key);
-    }
-  }
-  
+
+  store.set(pending);
+
   return pending;
 }
 
@@ -58,15 +219,16 @@ export function storePendingReply(params: Omit<PendingReply, "id" | "createdAt">
  * Get a pending reply by ID
  */
 export function getPendingReply(id: string): PendingReply | null {
-  const pending = pendingReplies.get(id.toUpperCase());
+  const key = id.toUpperCase();
+  const pending = store.get(key);
   if (!pending) return null;
-  
+
   // Check if expired
-  if (Date.now() - pending.createdAt > PENDING_REPLY_TTL_MS) {
-    pendingReplies.delete(id.toUpperCase());
+  if (isExpired(pending)) {
+    store.delete(key);
     return null;
   }
-  
+
   return pending;
 }
 
@@ -74,34 +236,55 @@ export function getPendingReply(id: string): PendingReply | null {
  * Remove a pending reply (after it's been handled)
  */
 export function removePendingReply(id: string): boolean {
-  return pendingReplies.delete(id.toUpperCase());
+  return store.delete(id.toUpperCase());
+}
+
+/**
+ * Take a pending reply out of the store before acting on it, so a second
+ * approval of the same entry finds nothing. Returns null if it was already
+ * taken (or expired); put it back with `restorePendingReply` if the action fails.
+ */
+export function claimPendingReply(id: string): PendingReply | null {
+  const pending = getPendingReply(id);
+  if (!pending) return null;
+  store.delete(pending.id);
+  return pending;
+}
+
+/**
+ * Put back a claimed pending reply whose action failed
+ */
+export function restorePendingReply(pending: PendingReply): void {
+  if (!store.get(pending.id)) store.set(pending);
 }
 
 /**
  * Update telegram message info for a pending reply
  */
 export function updatePendingReplyTelegram(
-  id: string, 
-  telegramMessageId: string, 
+  id: string,
+  telegramMessageId: string,
   telegramChatId: string
 ): void {
-  const pending = pendingReplies.get(id.toUpperCase());
+  const pending = store.get(id.toUpperCase());
   if (pending) {
-    pending.telegramMessageId = telegramMessageId;
-    pending.telegramChatId = telegramChatId;
+    store.set({ ...pending, telegramMessageId, telegramChatId });
   }
 }
 
 /**
- * Find pending reply by Telegram message ID (for reply detection)
+ * Find pending reply by Telegram message ID (for reply detection).
+ * Telegram message IDs are only unique per chat, so pass the chat ID when known.
  */
 export function findPendingReplyByTelegramMessage(
-  telegramMessageId: string
+  telegramMessageId: string,
+  telegramChatId?: string
 ): PendingReply | null {
-  for (const pending of pendingReplies.values()) {
-    if (pending.telegramMessageId === telegramMessageId) {
-      return pending;
-    }
+  for (const pending of store.values()) {
+    if (pending.telegramMessageId !== telegramMessageId) continue;
+    if (telegramChatId && pending.telegramChatId !== telegramChatId) continue;
+    if (isExpired(pending)) continue;
+    return pending;
   }
   return null;
 }
@@ -110,21 +293,13 @@ export function findPendingReplyByTelegramMessage(
  * Get all pending replies (for debugging/listing)
  */
 export function getAllPendingReplies(): PendingReply[] {
-  const cutoff = Date.now() - PENDING_REPLY_TTL_MS;
-  const results: PendingReply[] = [];
-  
-  for (const pending of pendingReplies.values()) {
-    if (pending.createdAt >= cutoff) {
-      results.push(pending);
-    }
-  }
-  
-  return results;
+  const now = Date.now();
+  return store.values().filter((pending) => !isExpired(pending, now));
 }
 
 /**
  * List all pending replies (for debugging)
  */
 export function listPendingReplies(): PendingReply[] {
-  return Array.from(pendingReplies.values());
+  return store.values();
 }
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { RedactionSchema } from "./types.js";
+import {
+  exportRedactions,
+  importRedactions,
+  isValidIban,
+  passesLuhn,
+  redactText,
+  restoreRedactions,
+} from "./redaction.js";
+
+const config = RedactionSchema.parse({
+  detectors: ["email", "phone", "iban", "card"],
+  reversible: ["email", "phone"],
+});
+
+describe("redactText", () => {
+  it("masks every enabled kind, numbering reversible ones", () => {
+    const text = "Mail jane@example.com or call +33 6 12 34 56 78, card 4111 1111 1111 1111";
+    expect(redactText(text, config, "session_mask")).toBe("Mail [EMAIL_1] or call [PHONE_1], card [CARD]");
+  });
+
+  it("reuses the placeholder of a value already seen in the conversation", () => {
+    redactText("jane@example.com", config, "session_reuse");
+    expect(redactText("again: jane@example.com, and bob@example.com", config, "session_reuse")).toBe(
+      "again: [EMAIL_1], and [EMAIL_2]"
+    );
+  });
+
+  it("masks reversible kinds for good without a session", () => {
+    expect(redactText("jane@example.com", config)).toBe("[EMAIL]");
+  });
+
+  it("leaves text alone when no detector is enabled", () => {
+    expect(redactText("jane@example.com", RedactionSchema.parse({}), "session_off")).toBe("jane@example.com");
+  });
+
+  it("only masks IBANs and card numbers with a valid checksum", () => {
+    expect(redactText("GB82 WEST 1234 5698 7654 32", config, "session_iban")).toBe("[IBAN]");
+    expect(isValidIban("GB82 WEST 1234 5698 7654 33")).toBe(false);
+    expect(passesLuhn("4111 1111 1111 1111")).toBe(true);
+    expect(passesLuhn("4111 1111 1111 1112")).toBe(false);
+  });
+
+  it("runs custom patterns under their own label", () => {
+    const custom = RedactionSchema.parse({
+      customPatterns: [{ name: "order-id", pattern: "ORD-\\d+" }],
+      reversible: ["order-id"],
+    });
+    expect(redactText("Where is ORD-1234?", custom, "session_custom")).toBe("Where is [ORDER_ID_1]?");
+  });
+});
+
+describe("vault round-trip", () => {
+  it("restores placeholders in the agent's reply", () => {
+    const redacted = redactText("I am jane@example.com", config, "session_restore");
+    expect(redacted).toBe("I am [EMAIL_1]");
+    expect(restoreRedactions("We wrote to [EMAIL_1] and [EMAIL_9].", "session_restore")).toBe(
+      "We wrote to jane@example.com and [EMAIL_9]."
+    );
+  });
+
+  it("exports and imports a conversation's placeholders", () => {
+    redactText("jane@example.com", config, "session_export");
+    const saved = exportRedactions("session_export");
+    expect(saved).toEqual({ "[EMAIL_1]": "jane@example.com" });
+    expect(exportRedactions("session_empty")).toBeUndefined();
+
+    // e.g. after a restart, in a fresh conversation vault
+    importRedactions("session_import", saved);
+    expect(restoreRedactions("Hi [EMAIL_1]", "session_import")).toBe("Hi jane@example.com");
+
+    // New values continue the numbering, known values keep theirs
+    expect(redactText("jane@example.com, bob@example.com", config, "session_import")).toBe("[EMAIL_1], [EMAIL_2]");
+  });
+
+  it("keeps placeholders the conversation already knows", () => {
+    redactText("jane@example.com", config, "session_conflict");
+    importRedactions("session_conflict", { "[EMAIL_1]": "other@example.com", "not a placeholder": "x" });
+    expect(restoreRedactions("[EMAIL_1]", "session_conflict")).toBe("jane@example.com");
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * PII Redaction
+ *
+ * Replaces personal data in visitor text before it reaches the model, the
+ * logs or Telegram. Reversible kinds get numbered placeholders (`[EMAIL_1]`)
+ * remembered per conversation, so the original values can be put back into
+ * the agent's reply; other kinds become a bare label (`[CARD]`). Pending
+ * approvals keep a copy of their conversation's placeholders in memory; the
+ * values are never written to disk, so they do not survive a restart.
+ */
+
+import type { RedactionConfig } from "./types.js";
+
+export const BUILTIN_DETECTORS = ["email", "phone", "iban", "card"] as const;
+export type BuiltinDetector = (typeof BUILTIN_DETECTORS)[number];
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  /** Extra check on a regex match (checksums, digit counts) */
+  accept?: (match: string) => boolean;
+}
+
+/**
+ * Placeholders of one conversation, in both directions
+ */
+interface Vault {
+  byValue: Map<string, string>;
+  byPlaceholder: Map<string, string>;
+  counters: Map<string, number>;
+}
+
+const MAX_VAULTS = 1000;
+
+// Reversible placeholders by Crisp session ID (insertion order doubles as LRU order)
+const vaults = new Map<string, Vault>();
+
+// Compiled detectors per config object
+const compiled = new WeakMap<RedactionConfig, Detector[]>();
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, "");
+}
+
+/**
+ * Luhn checksum (credit card numbers)
+ */
+export function passesLuhn(number: string): boolean {
+  const digits = digitsOf(number);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 checksum (IBAN)
+ */
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s+/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Order matters: IBANs and cards are claimed before the looser phone pattern
+const BUILTINS: Record<BuiltinDetector, Detector> = {
+  email: {
+    name: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  iban: {
+    name: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]){11,30}\b/gi,
+    accept: isValidIban,
+  },
+  card: {
+    name: "card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: (match) => {
+      const length = digitsOf(match).length;
+      return length >= 13 && length <= 19 && passesLuhn(match);
+    },
+  },
+  phone: {
+    name: "phone",
+    pattern: /(?:\+|\b00)?\(?\d[\d\s().-]{6,}\d\b/g,
+    accept: (match) => {
+      const length = digitsOf(match).length;
+      // Not a date like 2024-01-15
+      return length >= 8 && length <= 15 && !/^\d{4}-\d{2}-\d{2}$/.test(match.trim());
+    },
+  },
+};
+
+function getDetectors(config: RedactionConfig): Detector[] {
+  let detectors = compiled.get(config);
+  if (!detectors) {
+    detectors = [
+      ...(["email", "iban", "card", "phone"] as const)
+        .filter((name) => config.detectors.includes(name))
+        .map((name) => BUILTINS[name]),
+      ...config.customPatterns.map((custom) => ({
+        name: custom.name,
+        pattern: new RegExp(custom.pattern, custom.flags.includes("g") ? custom.flags : `${custom.flags}g`),
+      })),
+    ];
+    compiled.set(config, detectors);
+  }
+  return detectors;
+}
+
+function getVault(sessionId: string): Vault {
+  let vault = vaults.get(sessionId);
+  if (vault) {
+    vaults.delete(sessionId);
+  } else {
+    vault = { byValue: new Map(), byPlaceholder: new Map(), counters: new Map() };
+  }
+  vaults.set(sessionId, vault);
+
+  if (vaults.size > MAX_VAULTS) {
+    vaults.delete(vaults.keys().next().value as string);
+  }
+  return vault;
+}
+
+function labelOf(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+/**
+ * Replace matches, leaving placeholders inserted by earlier detectors alone
+ */
+function replaceOutsidePlaceholders(
+  text: string,
+  pattern: RegExp,
+  replace: (match: string) => string
+): string {
+  return text
+    .split(/(\[[A-Z0-9_]+\])/)
+    .map((part, index) => (index % 2 === 1 ? part : part.replace(pattern, replace)))
+    .join("");
+}
+
+/**
+ * Whether any detector is configured
+ */
+export function isRedactionEnabled(config: RedactionConfig | undefined): config is RedactionConfig {
+  return Boolean(config && (config.detectors.length > 0 || config.customPatterns.length > 0));
+}
+
+/**
+ * Redact a text. With a session ID, reversible kinds get placeholders that
+ * `restoreRedactions` can undo; without one everything is masked for good.
+ */
+export function redactText(
+  text: string,
+  config: RedactionConfig | undefined,
+  sessionId?: string
+): string {
+  if (!text || !isRedactionEnabled(config)) return text;
+
+  let result = text;
+  for (const detector of getDetectors(config)) {
+    const reversible = sessionId !== undefined && config.reversible.includes(detector.name);
+
+    result = replaceOutsidePlaceholders(result, detector.pattern, (match) => {
+      if (detector.accept && !detector.accept(match)) return match;
+
+      const label = labelOf(detector.name);
+      if (!reversible) return `[${label}]`;
+
+      const vault = getVault(sessionId!);
+      const known = vault.byValue.get(match);
+      if (known) return known;
+
+      const index = (vault.counters.get(label) ?? 0) + 1;
+      vault.counters.set(label, index);
+      const placeholder = `[${label}_${index}]`;
+      vault.byValue.set(match, placeholder);
+      vault.byPlaceholder.set(placeholder, match);
+      return placeholder;
+    });
+  }
+  return result;
+}
+
+/**
+ * Put the original values back in place of a conversation's placeholders
+ */
+export function restoreRedactions(text: string, sessionId: string): string {
+  const vault = vaults.get(sessionId);
+  if (!text || !vault || vault.byPlaceholder.size === 0) return text;
+
+  return text.replace(/\[[A-Z0-9_]+_\d+\]/g, (placeholder) => vault.byPlaceholder.get(placeholder) ?? placeholder);
+}
+
+/**
+ * Placeholders of a conversation and their values (undefined when there are none)
+ */
+export function exportRedactions(sessionId: string): Record<string, string> | undefined {
+  const vault = vaults.get(sessionId);
+  if (!vault || vault.byPlaceholder.size === 0) return undefined;
+  return Object.fromEntries(vault.byPlaceholder);
+}
+
+/**
+ * Put back placeholders saved by `exportRedactions` (e.g. after a restart).
+ * Placeholders the conversation already knows are left as they are.
+ */
+export function importRedactions(sessionId: string, redactions: Record<string, string> | undefined): void {
+  if (!redactions || Object.keys(redactions).length === 0) return;
+
+  const vault = getVault(sessionId);
+  for (const [placeholder, value] of Object.entries(redactions)) {
+    const match = /^\[([A-Z0-9_]+)_(\d+)\]$/.exec(placeholder);
+    if (!match || vault.byPlaceholder.has(placeholder)) continue;
+
+    vault.byPlaceholder.set(placeholder, value);
+    if (!vault.byValue.has(value)) vault.byValue.set(value, placeholder);
+    // New values must not reuse a restored number
+    const [, label, index] = match;
+    vault.counters.set(label, Math.max(vault.counters.get(label) ?? 0, Number(index)));
+  }
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createCrispClient } from "./api-client.js";
+import {
+  clearOperatorAvailability,
+  evaluateReplyPolicy,
+  isWithinBusinessHours,
+  markOutOfHoursTemplateSent,
+} from "./reply-policy.js";
+import { BusinessHoursSchema, CrispConfigSchema } from "./types.js";
+import { createFakeCrispServer, type FakeCrispServer } from "../test/fake-crisp-server.js";
+
+// Monday 5 January 2026
+const MONDAY = "2026-01-05";
+
+const officeHours = BusinessHoursSchema.parse({
+  timezone: "Europe/Paris",
+  schedule: [
+    { days: ["mon", "tue", "wed", "thu", "fri"], open: "09:00", close: "18:00" },
+    { days: ["fri"], open: "22:00", close: "06:00" },
+  ],
+  holidays: ["2026-01-06"],
+});
+
+describe("isWithinBusinessHours", () => {
+  it("reads the schedule in its own timezone", () => {
+    expect(isWithinBusinessHours(officeHours, new Date(`${MONDAY}T07:59:00Z`))).toBe(false);
+    expect(isWithinBusinessHours(officeHours, new Date(`${MONDAY}T08:00:00Z`))).toBe(true);
+    expect(isWithinBusinessHours(officeHours, new Date(`${MONDAY}T16:59:00Z`))).toBe(true);
+    expect(isWithinBusinessHours(officeHours, new Date(`${MONDAY}T17:00:00Z`))).toBe(false);
+  });
+
+  it("stays closed on holidays", () => {
+    expect(isWithinBusinessHours(officeHours, new Date("2026-01-06T10:00:00Z"))).toBe(false);
+  });
+
+  it("carries overnight windows into the next morning", () => {
+    expect(isWithinBusinessHours(officeHours, new Date("2026-01-08T22:00:00Z"))).toBe(false);
+    expect(isWithinBusinessHours(officeHours, new Date("2026-01-09T22:00:00Z"))).toBe(true);
+    expect(isWithinBusinessHours(officeHours, new Date("2026-01-10T04:30:00Z"))).toBe(true);
+    expect(isWithinBusinessHours(officeHours, new Date("2026-01-10T05:00:00Z"))).toBe(false);
+  });
+});
+
+describe("evaluateReplyPolicy", () => {
+  const crisps: FakeCrispServer[] = [];
+
+  afterEach(() => {
+    for (const crisp of crisps.splice(0)) clearOperatorAvailability(crisp.websiteId);
+  });
+
+  function decide(settings: Record<string, unknown>, opts: { now?: Date; sessionId?: string; online?: boolean } = {}) {
+    const crisp = createFakeCrispServer();
+    crisps.push(crisp);
+    if (opts.online) crisp.setOperatorAvailabilities([{ user_id: "operator_olivia", type: "online" }]);
+
+    const config = CrispConfigSchema.parse({
+      websiteId: crisp.websiteId,
+      apiKeyId: "key",
+      apiKeySecret: "secret",
+      webhookSecret: "reply-policy-webhook-secret",
+      ...settings,
+    });
+    const client = createCrispClient({ apiKeyId: "key", apiKeySecret: "secret", baseUrl: crisp.baseUrl, fetch: crisp.fetch });
+
+    const decision = evaluateReplyPolicy({
+      config,
+      client,
+      accountId: "default",
+      websiteId: crisp.websiteId,
+      sessionId: opts.sessionId ?? "session_policy",
+      now: opts.now,
+    });
+    return { crisp, decision };
+  }
+
+  it("always lets the agent answer by default", async () => {
+    const { crisp, decision } = decide({}, { online: true });
+
+    expect(await decision).toEqual({ action: "agent" });
+    expect(crisp.requests).toEqual([]);
+  });
+
+  it("stays quiet during business hours", async () => {
+    const { decision } = decide(
+      { replyPolicy: "outside_hours", businessHours: officeHours },
+      { now: new Date(`${MONDAY}T10:00:00Z`) }
+    );
+
+    expect(await decision).toEqual({ action: "quiet", reason: "within business hours" });
+  });
+
+  it("sends the out-of-hours template once per conversation", async () => {
+    const settings = { replyPolicy: "outside_hours", businessHours: officeHours, outOfHoursReply: "template" };
+    const now = new Date(`${MONDAY}T20:00:00Z`);
+
+    expect(await decide(settings, { now, sessionId: "session_closed" }).decision).toEqual({ action: "template" });
+    markOutOfHoursTemplateSent("default", "session_closed");
+    expect(await decide(settings, { now, sessionId: "session_closed" }).decision).toEqual({
+      action: "quiet",
+      reason: "out-of-hours message already sent",
+    });
+    expect(await decide({ ...settings, outOfHoursReply: "agent" }, { now, sessionId: "session_closed" }).decision).toEqual({
+      action: "agent",
+    });
+  });
+
+  it("leaves the conversation to an online operator", async () => {
+    const online = decide({ replyPolicy: "no_operator" }, { online: true });
+    expect(await online.decision).toEqual({ action: "quiet", reason: "an operator is online" });
+
+    const offline = decide({ replyPolicy: "no_operator" });
+    expect(await offline.decision).toEqual({ action: "agent" });
+  });
+
+  it("answers when operator availability cannot be checked", async () => {
+    const { crisp, decision } = decide({ replyPolicy: "no_operator" });
+    crisp.failNext(403);
+
+    expect(await decision).toEqual({ action: "agent" });
+  });
+});
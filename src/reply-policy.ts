@@ -0,0 +1,158 @@
+/**
+ * Reply Policy
+ *
+ * Decides whether the bot answers a visitor message, based on business hours
+ * and whether a human operator is online, and whether the answer comes from
+ * the agent or from the `autoReplyMessage` template.
+ */
+
+import { WEEKDAYS, type BusinessHours, type CrispConfig, type Weekday } from "./types.js";
+import type { CrispApiClient } from "./api-client.js";
+import { createDedupeCache } from "./dedupe.js";
+import { log } from "./logger.js";
+
+export type ReplyDecision =
+  | { action: "agent" }
+  | { action: "template" }
+  | { action: "quiet"; reason: string };
+
+const AVAILABILITY_CACHE_MS = 60 * 1000;
+
+// Operator availability per website (avoids one API call per message)
+const availabilityCache = new Map<string, { online: boolean; checkedAt: number }>();
+
+// Conversations that already got the out-of-hours template
+const templateSent = createDedupeCache({
+  maxEntries: 5000,
+  ttlMs: 12 * 60 * 60 * 1000, // 12 hours
+});
+
+/**
+ * Local weekday, date and minutes since midnight in a timezone
+ */
+function zonedTime(now: Date, timeZone: string): { day: Weekday; date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    day: WEEKDAYS[["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(parts.weekday)],
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether the office is open at a given time.
+ * Windows closing before they open (e.g. 22:00-06:00) span midnight.
+ */
+export function isWithinBusinessHours(hours: BusinessHours, now = new Date()): boolean {
+  const local = zonedTime(now, hours.timezone);
+  if (hours.holidays.includes(local.date)) return false;
+
+  const previousDay = WEEKDAYS[(WEEKDAYS.indexOf(local.day) + 6) % 7];
+
+  return hours.schedule.some((window) => {
+    const open = toMinutes(window.open);
+    const close = toMinutes(window.close);
+
+    if (open < close) {
+      return window.days.includes(local.day) && local.minutes >= open && local.minutes < close;
+    }
+
+    // Overnight window: evening of an opening day, or early morning after one
+    return (
+      (window.days.includes(local.day) && local.minutes >= open) ||
+      (window.days.includes(previousDay) && local.minutes < close)
+    );
+  });
+}
+
+/**
+ * Whether at least one operator of the website is online (cached for a minute)
+ */
+export async function isOperatorOnline(client: CrispApiClient, websiteId: string): Promise<boolean> {
+  const cached = availabilityCache.get(websiteId);
+  if (cached && Date.now() - cached.checkedAt < AVAILABILITY_CACHE_MS) {
+    return cached.online;
+  }
+
+  const operators = await client.getOperatorAvailabilities(websiteId);
+  const online = operators.some((operator) => operator.type === "online");
+  availabilityCache.set(websiteId, { online, checkedAt: Date.now() });
+  return online;
+}
+
+/**
+ * Forget the cached operator availability of a website
+ */
+export function clearOperatorAvailability(websiteId: string): void {
+  availabilityCache.delete(websiteId);
+}
+
+/**
+ * Record that a conversation got the out-of-hours template (once it was sent,
+ * so a failed send is retried on the next message)
+ */
+export function markOutOfHoursTemplateSent(accountId: string, sessionId: string): void {
+  templateSent.check(`${accountId}:${sessionId}`);
+}
+
+/**
+ * Decide how (and whether) to answer a visitor message
+ */
+export async function evaluateReplyPolicy(params: {
+  config: CrispConfig;
+  client: CrispApiClient;
+  accountId: string;
+  websiteId: string;
+  sessionId: string;
+  now?: Date;
+}): Promise<ReplyDecision> {
+  const { config, client, accountId, websiteId, sessionId } = params;
+  const policy = config.replyPolicy;
+
+  if (policy === "always") return { action: "agent" };
+
+  if (policy !== "no_operator" && config.businessHours) {
+    if (!isWithinBusinessHours(config.businessHours, params.now)) {
+      if (config.outOfHoursReply === "agent") return { action: "agent" };
+
+      if (templateSent.has(`${accountId}:${sessionId}`)) {
+        return { action: "quiet", reason: "out-of-hours message already sent" };
+      }
+      return { action: "template" };
+    }
+
+    if (policy === "outside_hours") {
+      return { action: "quiet", reason: "within business hours" };
+    }
+  }
+
+  try {
+    if (await isOperatorOnline(client, websiteId)) {
+      return { action: "quiet", reason: "an operator is online" };
+    }
+  } catch (err) {
+    // Better a bot reply next to a human than no reply at all
+    log.warn("Failed to check operator availability", { websiteId, error: err });
+  }
+
+  return { action: "agent" };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCarouselMessage,
+  buildFieldMessage,
+  buildFileMessage,
+  buildPickerMessage,
+  extractRichMessages,
+} from "./rich-messages.js";
+
+describe("builders", () => {
+  it("builds pickers from labels or explicit choices", () => {
+    expect(buildPickerMessage({ id: "topic", text: "How can we help?", choices: ["Get support", { value: "sales", label: "Talk to sales" }] })).toEqual({
+      type: "picker",
+      content: {
+        id: "topic",
+        text: "How can we help?",
+        required: false,
+        choices: [
+          { value: "get_support", label: "Get support", selected: false },
+          { value: "sales", label: "Talk to sales", selected: false },
+        ],
+      },
+    });
+  });
+
+  it("generates IDs for pickers and fields", () => {
+    expect(buildPickerMessage({ text: "Pick", choices: ["A"] }).content.id).toMatch(/^picker-[0-9a-f-]{36}$/);
+    expect(buildFieldMessage({ text: "Your email" }).content).toEqual({
+      id: expect.stringMatching(/^field-[0-9a-f-]{36}$/),
+      text: "Your email",
+      explain: "",
+      required: false,
+    });
+  });
+
+  it("fills in optional carousel card fields", () => {
+    expect(buildCarouselMessage({ text: "Plans", targets: [{ title: "Pro" }] }).content.targets).toEqual([
+      { title: "Pro", description: "", actions: [] },
+    ]);
+  });
+
+  it("derives a file's name and type from its URL", () => {
+    expect(buildFileMessage({ url: "https://files.example/docs/Guide.PDF?v=2" }).content).toEqual({
+      name: "Guide.PDF",
+      url: "https://files.example/docs/Guide.PDF?v=2",
+      type: "application/pdf",
+    });
+    expect(buildFileMessage({ url: "https://files.example/blob" }).content.type).toBe("application/octet-stream");
+    expect(buildFileMessage({ url: "https://files.example/x", name: "report.csv", contentType: "text/plain" }).content).toEqual({
+      name: "report.csv",
+      url: "https://files.example/x",
+      type: "text/plain",
+    });
+  });
+});
+
+describe("extractRichMessages", () => {
+  it("splits crisp blocks out of the reply text", () => {
+    const reply = [
+      "Sure, which one?",
+      "",
+      "```crisp",
+      '{ "type": "picker", "id": "plan", "text": "Pick a plan", "choices": ["Basic", "Pro"] }',
+      "```",
+      "",
+      "```crisp",
+      '{ "type": "field", "id": "email", "text": "Your email" }',
+      "```",
+    ].join("\n");
+
+    const { text, messages } = extractRichMessages(reply);
+
+    expect(text).toBe("Sure, which one?");
+    expect(messages.map((message) => message.type)).toEqual(["picker", "field"]);
+    expect(messages[0]).toEqual(expect.objectContaining({ content: expect.objectContaining({ id: "plan", text: "Pick a plan" }) }));
+  });
+
+  it("leaves invalid blocks in the text", () => {
+    const badJson = "```crisp\n{ not json }\n```";
+    const badSpec = '```crisp\n{ "type": "picker", "text": "Pick", "choices": [] }\n```';
+
+    expect(extractRichMessages(badJson)).toEqual({ text: badJson, messages: [] });
+    expect(extractRichMessages(badSpec)).toEqual({ text: badSpec, messages: [] });
+  });
+
+  it("ignores code blocks in other languages", () => {
+    const reply = '```json\n{ "type": "picker" }\n```';
+    expect(extractRichMessages(reply)).toEqual({ text: reply, messages: [] });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Outbound Rich Messages
+ *
+ * Typed builders for Crisp's structured message types, plus the reply
+ * convention that lets the agent express them: a fenced code block tagged
+ * `crisp` whose body is a JSON object, e.g.
+ *
+ * ```crisp
+ * { "type": "picker", "text": "How can we help?",
+ *   "choices": [{ "value": "sales", "label": "Talk to sales" }, "Get support"] }
+ * ```
+ */
+
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { z } from "zod";
+import type {
+  CrispCarouselTarget,
+  CrispOutboundContent,
+} from "./types.js";
+import { log } from "./logger.js";
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+export type PickerChoiceInput = string | { value: string; label: string; icon?: string };
+
+/**
+ * Build a picker (quick-reply buttons)
+ */
+export function buildPickerMessage(params: {
+  id?: string;
+  text: string;
+  choices: PickerChoiceInput[];
+  required?: boolean;
+}): Extract<CrispOutboundContent, { type: "picker" }> {
+  return {
+    type: "picker",
+    content: {
+      id: params.id ?? `picker-${randomUUID()}`,
+      text: params.text,
+      required: params.required ?? false,
+      choices: params.choices.map((choice) => {
+        const normalized = typeof choice === "string"
+          ? { value: slugify(choice), label: choice }
+          : choice;
+        return { ...normalized, selected: false };
+      }),
+    },
+  };
+}
+
+/**
+ * Build a field (asks the visitor to type a value, e.g. an email)
+ */
+export function buildFieldMessage(params: {
+  id?: string;
+  text: string;
+  explain?: string;
+  required?: boolean;
+}): Extract<CrispOutboundContent, { type: "field" }> {
+  return {
+    type: "field",
+    content: {
+      id: params.id ?? `field-${randomUUID()}`,
+      text: params.text,
+      explain: params.explain ?? "",
+      required: params.required ?? false,
+    },
+  };
+}
+
+/**
+ * Build a carousel of cards
+ */
+export function buildCarouselMessage(params: {
+  text: string;
+  targets: CrispCarouselTarget[];
+}): Extract<CrispOutboundContent, { type: "carousel" }> {
+  return {
+    type: "carousel",
+    content: {
+      text: params.text,
+      targets: params.targets.map((target) => ({
+        ...target,
+        description: target.description ?? "",
+        actions: target.actions ?? [],
+      })),
+    },
+  };
+}
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+};
+
+/**
+ * Build a file message from a URL
+ */
+export function buildFileMessage(params: {
+  url: string;
+  name?: string;
+  contentType?: string;
+}): Extract<CrispOutboundContent, { type: "file" }> {
+  let pathname = params.url;
+  try {
+    pathname = new URL(params.url).pathname;
+  } catch {
+    // Not an absolute URL, use as-is
+  }
+
+  const name = params.name ?? (path.posix.basename(pathname) || "file");
+  const extension = path.posix.extname(name).toLowerCase();
+
+  return {
+    type: "file",
+    content: {
+      name,
+      url: params.url,
+      type: params.contentType ?? CONTENT_TYPES_BY_EXTENSION[extension] ?? "application/octet-stream",
+    },
+  };
+}
+
+function slugify(label: string): string {
+  return label
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "") || "choice";
+}
+
+// ============================================================================
+// Reply convention
+// ============================================================================
+
+const RichBlockSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("picker"),
+    id: z.string().optional(),
+    text: z.string().min(1),
+    choices: z.array(
+      z.union([
+        z.string().min(1),
+        z.object({ value: z.string().min(1), label: z.string().min(1), icon: z.string().optional() }),
+      ])
+    ).min(1),
+    required: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("field"),
+    id: z.string().optional(),
+    text: z.string().min(1),
+    explain: z.string().optional(),
+    required: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("carousel"),
+    text: z.string(),
+    targets: z.array(
+      z.object({
+        title: z.string().min(1),
+        description: z.string().optional(),
+        image: z.string().url().optional(),
+        actions: z.array(z.object({ label: z.string().min(1), url: z.string().url() })).optional(),
+      })
+    ).min(1),
+  }),
+]);
+
+const RICH_BLOCK_PATTERN = /```crisp[ \t]*\r?\n([\s\S]*?)```/g;
+
+/**
+ * Split an agent reply into plain text and rich messages.
+ * Invalid blocks are left in the text untouched.
+ */
+export function extractRichMessages(text: string): {
+  text: string;
+  messages: CrispOutboundContent[];
+} {
+  const messages: CrispOutboundContent[] = [];
+
+  const remaining = text.replace(RICH_BLOCK_PATTERN, (block, body: string) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      log.warn("Ignoring rich message block with invalid JSON");
+      return block;
+    }
+
+    const parsed = RichBlockSchema.safeParse(json);
+    if (!parsed.success) {
+      log.warn("Ignoring invalid rich message block", { issue: parsed.error.issues[0]?.message });
+      return block;
+    }
+
+    const spec = parsed.data;
+    switch (spec.type) {
+      case "picker":
+        messages.push(buildPickerMessage(spec));
+        break;
+      case "field":
+        messages.push(buildFieldMessage(spec));
+        break;
+      case "carousel":
+        messages.push(buildCarouselMessage(spec));
+        break;
+    }
+    return "";
+  });
+
+  return {
+    text: remaining.replace(/\n{3,}/g, "\n\n").trim(),
+    messages,
+  };
+}
@@ -0,0 +1,107 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { maskSecrets } from "./logger.js";
+import { describeSecretSources, parseSecretRef, resolveSecretRef, secretString } from "./secrets.js";
+
+const dir = mkdtempSync(join(tmpdir(), "crisp-secrets-"));
+const ENV_NAME = "CRISP_SECRETS_TEST_VALUE";
+
+afterEach(() => {
+  delete process.env[ENV_NAME];
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function secretFile(name: string, contents: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, contents);
+  return path;
+}
+
+describe("parseSecretRef", () => {
+  it("recognizes env: and file: references", () => {
+    expect(parseSecretRef("env:CRISP_KEY")).toEqual({ kind: "env", name: "CRISP_KEY" });
+    expect(parseSecretRef("file:/run/secrets/crisp")).toEqual({ kind: "file", path: "/run/secrets/crisp" });
+    expect(parseSecretRef("plain-value")).toBeNull();
+    expect(parseSecretRef("env:")).toBeNull();
+  });
+});
+
+describe("resolveSecretRef", () => {
+  it("reads environment variables", () => {
+    process.env[ENV_NAME] = "from-env";
+    expect(resolveSecretRef({ kind: "env", name: ENV_NAME })).toBe("from-env");
+  });
+
+  it("fails on unset or empty variables", () => {
+    expect(() => resolveSecretRef({ kind: "env", name: ENV_NAME })).toThrow(`${ENV_NAME} is not set`);
+    process.env[ENV_NAME] = "";
+    expect(() => resolveSecretRef({ kind: "env", name: ENV_NAME })).toThrow("is not set");
+  });
+
+  it("reads trimmed file contents", () => {
+    const path = secretFile("token", "from-file\n");
+    expect(resolveSecretRef({ kind: "file", path })).toBe("from-file");
+  });
+
+  it("fails on missing or empty files", () => {
+    const missing = join(dir, "missing");
+    expect(() => resolveSecretRef({ kind: "file", path: missing })).toThrow(`Cannot read secret file ${missing}: ENOENT`);
+    const empty = secretFile("empty", "  \n");
+    expect(() => resolveSecretRef({ kind: "file", path: empty })).toThrow("is empty");
+  });
+});
+
+describe("secretString", () => {
+  const schema = secretString(z.string().min(8));
+
+  it("keeps literal values", () => {
+    expect(schema.parse("literal-secret")).toBe("literal-secret");
+  });
+
+  it("resolves references when parsed", () => {
+    process.env[ENV_NAME] = "env-secret-value";
+    expect(schema.parse(`env:${ENV_NAME}`)).toBe("env-secret-value");
+    expect(schema.parse(`file:${secretFile("api", "file-secret-value")}`)).toBe("file-secret-value");
+  });
+
+  it("checks the resolved value and names the reference", () => {
+    process.env[ENV_NAME] = "short";
+    const parsed = schema.safeParse(`env:${ENV_NAME}`);
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].message).toMatch(new RegExp(`\\(resolved from env:${ENV_NAME}\\)$`));
+  });
+
+  it("reports references that cannot be resolved", () => {
+    const parsed = schema.safeParse(`env:${ENV_NAME}`);
+    expect(parsed.error?.issues[0].message).toBe(`Environment variable ${ENV_NAME} is not set`);
+  });
+
+  it("masks resolved values in logs", () => {
+    process.env[ENV_NAME] = "masked-secret-value";
+    schema.parse(`env:${ENV_NAME}`);
+    expect(maskSecrets("token=masked-secret-value")).toBe("token=[redacted]");
+  });
+});
+
+describe("describeSecretSources", () => {
+  it("shows references as written and literals as inline", () => {
+    expect(
+      describeSecretSources({
+        apiKeySecret: "env:CRISP_API_SECRET",
+        webhookSecret: "file:/run/secrets/hook",
+        telegramBotToken: "123:literal",
+        websiteId: "not-a-secret",
+      })
+    ).toEqual({
+      apiKeySecret: "env:CRISP_API_SECRET",
+      webhookSecret: "file:/run/secrets/hook",
+      telegramBotToken: "inline",
+    });
+  });
+});
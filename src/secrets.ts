@@ -0,0 +1,125 @@
+/**
+ * Secret References
+ *
+ * Credentials in the config may be literal values or references, resolved
+ * when the account is resolved:
+ *
+ *   apiKeySecret: "env:CRISP_API_SECRET"       # environment variable
+ *   telegramBotToken: "file:/run/secrets/bot"  # file contents (trimmed)
+ *
+ * References are read when the config is loaded or reloaded, not per request:
+ * the resolved accounts are kept in the account registry until the next
+ * reload. Files are not watched, so a rotated credential takes effect only
+ * after a config reload. Resolved values are registered with the logger,
+ * which masks them.
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { registerSecretValue } from "./logger.js";
+
+export const SECRET_FIELDS = [
+  "apiKeySecret",
+  "webhookSecret",
+  "webhookSigningSecret",
+  "telegramBotToken",
+  "telegramWebhookSecret",
+] as const;
+
+export type SecretField = (typeof SECRET_FIELDS)[number];
+
+export const SECRET_REF_PATTERN = /^(env|file):(.+)$/;
+
+export type SecretRef = { kind: "env"; name: string } | { kind: "file"; path: string };
+
+// Literal constraints of each secret schema, for the JSON schema generator
+const secretLiterals = new WeakMap<z.ZodTypeAny, z.ZodString>();
+
+/**
+ * Parse an `env:`/`file:` reference (null for literal values)
+ */
+export function parseSecretRef(value: string): SecretRef | null {
+  const match = SECRET_REF_PATTERN.exec(value);
+  if (!match) return null;
+  return match[1] === "env" ? { kind: "env", name: match[2] } : { kind: "file", path: match[2] };
+}
+
+/**
+ * Read the value behind a reference
+ */
+export function resolveSecretRef(ref: SecretRef): string {
+  if (ref.kind === "env") {
+    const value = process.env[ref.name];
+    if (value === undefined || value === "") {
+      throw new Error(`Environment variable ${ref.name} is not set`);
+    }
+    return value;
+  }
+
+  let value: string;
+  try {
+    value = readFileSync(ref.path, "utf8").trim();
+  } catch (err) {
+    throw new Error(`Cannot read secret file ${ref.path}: ${(err as NodeJS.ErrnoException).code ?? (err as Error).message}`);
+  }
+  if (!value) throw new Error(`Secret file ${ref.path} is empty`);
+  return value;
+}
+
+/**
+ * Credential setting: a literal checked against `literal`, or a reference
+ * whose resolved value is checked against it
+ */
+export function secretString(literal: z.ZodString) {
+  const schema = z.string().transform((value, ctx) => {
+    const ref = parseSecretRef(value);
+    let resolved = value;
+
+    if (ref) {
+      try {
+        resolved = resolveSecretRef(ref);
+      } catch (err) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (err as Error).message });
+        return z.NEVER;
+      }
+    }
+
+    const check = literal.safeParse(resolved);
+    if (!check.success) {
+      for (const issue of check.error.issues) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: ref ? `${issue.message} (resolved from ${value})` : issue.message,
+        });
+      }
+      return z.NEVER;
+    }
+
+    registerSecretValue(resolved);
+    return resolved;
+  });
+
+  secretLiterals.set(schema, literal);
+  return schema;
+}
+
+/**
+ * Literal constraints of a schema built by `secretString`
+ */
+export function getSecretLiteral(schema: z.ZodTypeAny): z.ZodString | undefined {
+  return secretLiterals.get(schema);
+}
+
+/**
+ * Where each configured secret comes from, safe to display
+ * (references are shown as written, literal values as "inline")
+ */
+export function describeSecretSources(raw: Record<string, unknown>): Partial<Record<SecretField, string>> {
+  const sources: Partial<Record<SecretField, string>> = {};
+  for (const field of SECRET_FIELDS) {
+    const value = raw[field];
+    if (typeof value !== "string" || !value) continue;
+    sources[field] = parseSecretRef(value) ? value : "inline";
+  }
+  return sources;
+}
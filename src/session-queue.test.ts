@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSessionQueue } from "./session-queue.js";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("createSessionQueue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("processes each message on its own without debounce", async () => {
+    const batches: string[][] = [];
+    const queue = createSessionQueue<string>({
+      debounceMs: 0,
+      maxBurst: 5,
+      process: async (_key, items) => {
+        batches.push(items);
+      },
+    });
+
+    queue.enqueue("s1", "a");
+    queue.enqueue("s1", "b");
+    await queue.drain();
+
+    expect(batches).toEqual([["a"], ["b"]]);
+    expect(queue.pending).toBe(0);
+  });
+
+  it("runs turns of one session one after another", async () => {
+    const first = deferred();
+    const events: string[] = [];
+    const queue = createSessionQueue<string>({
+      debounceMs: 0,
+      maxBurst: 5,
+      process: async (key, items) => {
+        events.push(`start ${key}:${items.join()}`);
+        if (items[0] === "a") await first.promise;
+        events.push(`end ${key}:${items.join()}`);
+      },
+    });
+
+    queue.enqueue("s1", "a");
+    queue.enqueue("s1", "b");
+    queue.enqueue("s2", "c");
+    await vi.waitFor(() => expect(events).toContain("end s2:c"));
+
+    // s2 is not held up by s1, but s1's second turn waits for the first
+    expect(events).not.toContain("start s1:b");
+    expect(queue.pending).toBe(2);
+
+    first.resolve();
+    await queue.drain();
+    expect(events.indexOf("end s1:a")).toBeLessThan(events.indexOf("start s1:b"));
+  });
+
+  it("batches a burst into one turn after the debounce window", async () => {
+    vi.useFakeTimers();
+    const batches: string[][] = [];
+    const queue = createSessionQueue<string>({
+      debounceMs: 1_000,
+      maxBurst: 5,
+      process: async (_key, items) => {
+        batches.push(items);
+      },
+    });
+
+    queue.enqueue("s1", "a");
+    await vi.advanceTimersByTimeAsync(600);
+    queue.enqueue("s1", "b");
+    // The window restarts with every message
+    await vi.advanceTimersByTimeAsync(600);
+    expect(batches).toEqual([]);
+    expect(queue.pending).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(batches).toEqual([["a", "b"]]);
+  });
+
+  it("flushes at maxBurst without waiting", async () => {
+    vi.useFakeTimers();
+    const batches: string[][] = [];
+    const queue = createSessionQueue<string>({
+      debounceMs: 1_000,
+      maxBurst: 2,
+      process: async (_key, items) => {
+        batches.push(items);
+      },
+    });
+
+    queue.enqueue("s1", "a");
+    queue.enqueue("s1", "b");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(batches).toEqual([["a", "b"]]);
+  });
+
+  it("drain flushes debounced buffers and waits for running turns", async () => {
+    vi.useFakeTimers();
+    const batches: string[][] = [];
+    const queue = createSessionQueue<string>({
+      debounceMs: 60_000,
+      maxBurst: 5,
+      process: async (_key, items) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        batches.push(items);
+      },
+    });
+
+    queue.enqueue("s1", "a");
+    queue.enqueue("s2", "b");
+    const drained = queue.drain();
+    await vi.advanceTimersByTimeAsync(10);
+    await drained;
+
+    expect(batches).toEqual([["a"], ["b"]]);
+    expect(queue.pending).toBe(0);
+  });
+
+  it("keeps going after a failed turn", async () => {
+    const batches: string[][] = [];
+    const queue = createSessionQueue<string>({
+      debounceMs: 0,
+      maxBurst: 5,
+      process: async (_key, items) => {
+        if (items[0] === "boom") throw new Error("agent failed");
+        batches.push(items);
+      },
+    });
+
+    queue.enqueue("s1", "boom");
+    queue.enqueue("s1", "ok");
+    await queue.drain();
+
+    expect(batches).toEqual([["ok"]]);
+    expect(queue.pending).toBe(0);
+  });
+});
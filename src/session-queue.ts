@@ -0,0 +1,120 @@
+/**
+ * Per-Session Work Queue
+ *
+ * Serializes inbound processing per conversation so replies never race each
+ * other, and optionally debounces bursts of visitor messages into one turn.
+ */
+
+import { log } from "./logger.js";
+
+export interface SessionQueueOptions<T> {
+  /** Wait this long after the last message before processing (0 = no debounce) */
+  debounceMs: number;
+  /** Flush immediately once this many messages are buffered */
+  maxBurst: number;
+  /** Process a batch of items for one session */
+  process: (sessionKey: string, items: T[]) => Promise<void>;
+}
+
+export interface SessionQueue<T> {
+  /**
+   * Add an item to a session's buffer
+   */
+  enqueue(sessionKey: string, item: T): void;
+
+  /**
+   * Number of items buffered or being processed
+   */
+  readonly pending: number;
+
+  /**
+   * Flush all buffers and wait until every session is idle
+   */
+  drain(): Promise<void>;
+}
+
+interface SessionSlot<T> {
+  buffer: T[];
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Tail of the serial processing chain */
+  tail: Promise<void>;
+  inFlight: number;
+}
+
+/**
+ * Create a per-session serial queue
+ */
+export function createSessionQueue<T>(opts: SessionQueueOptions<T>): SessionQueue<T> {
+  const { debounceMs, maxBurst, process } = opts;
+  const slots = new Map<string, SessionSlot<T>>();
+
+  function flush(sessionKey: string, slot: SessionSlot<T>): void {
+    if (slot.timer) {
+      clearTimeout(slot.timer);
+      slot.timer = null;
+    }
+    if (slot.buffer.length === 0) return;
+
+    const batch = slot.buffer;
+    slot.buffer = [];
+    slot.inFlight += batch.length;
+
+    slot.tail = slot.tail
+      .then(() => process(sessionKey, batch))
+      .catch((err) => {
+        log.error("Session queue error", { sessionKey, error: err });
+      })
+      .finally(() => {
+        slot.inFlight -= batch.length;
+        // Forget idle sessions
+        if (
+          slot.inFlight === 0 &&
+          slot.buffer.length === 0 &&
+          !slot.timer &&
+          slots.get(sessionKey) === slot
+        ) {
+          slots.delete(sessionKey);
+        }
+      });
+  }
+
+  return {
+    enqueue(sessionKey: string, item: T) {
+      let slot = slots.get(sessionKey);
+      if (!slot) {
+        slot = { buffer: [], timer: null, tail: Promise.resolve(), inFlight: 0 };
+        slots.set(sessionKey, slot);
+      }
+
+      slot.buffer.push(item);
+
+      if (debounceMs <= 0 || slot.buffer.length >= maxBurst) {
+        flush(sessionKey, slot);
+        return;
+      }
+
+      // Restart the debounce window on every new message
+      if (slot.timer) clearTimeout(slot.timer);
+      const current = slot;
+      slot.timer = setTimeout(() => {
+        current.timer = null;
+        flush(sessionKey, current);
+      }, debounceMs);
+    },
+
+    get pending() {
+      let count = 0;
+      for (const slot of slots.values()) {
+        count += slot.buffer.length + slot.inFlight;
+      }
+      return count;
+    },
+
+    async drain() {
+      for (const [sessionKey, slot] of slots) {
+        flush(sessionKey, slot);
+      }
+      await Promise.all(Array.from(slots.values(), (slot) => slot.tail));
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  clearTakeovers,
+  getTakeoverState,
+  isOwnMessage,
+  listTakeovers,
+  pauseSession,
+  recordOutgoingMessage,
+  recordOwnFingerprint,
+  resumeSession,
+} from "./takeover.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+  clearTakeovers("default");
+  clearTakeovers("other");
+});
+
+describe("pauseSession", () => {
+  it("pauses until the cooldown runs out", () => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    pauseSession({ accountId: "default", sessionId: "session_cooldown", reason: "operator", cooldownMs: 60_000, operator: "Olivia" });
+
+    expect(getTakeoverState("session_cooldown")).toEqual({
+      accountId: "default",
+      sessionId: "session_cooldown",
+      reason: "operator",
+      pausedAt: 1_700_000_000_000,
+      resumeAt: 1_700_000_060_000,
+      operator: "Olivia",
+    });
+
+    vi.advanceTimersByTime(60_000);
+    expect(getTakeoverState("session_cooldown")).toBeNull();
+    expect(listTakeovers()).toEqual([]);
+  });
+
+  it("keeps an open-ended pause when an operator answers", () => {
+    pauseSession({ accountId: "default", sessionId: "session_manual", reason: "manual", cooldownMs: null });
+    pauseSession({ accountId: "default", sessionId: "session_manual", reason: "operator", cooldownMs: 60_000 });
+
+    expect(getTakeoverState("session_manual")).toEqual(expect.objectContaining({ reason: "manual", resumeAt: null }));
+  });
+});
+
+describe("resumeSession", () => {
+  it("resumes only the account's own takeovers", () => {
+    pauseSession({ accountId: "default", sessionId: "session_resume", reason: "assignment", cooldownMs: null });
+
+    expect(resumeSession("session_resume", "other")).toBe(false);
+    expect(resumeSession("session_resume")).toBe(true);
+    expect(resumeSession("session_resume")).toBe(false);
+    expect(getTakeoverState("session_resume")).toBeNull();
+  });
+
+  it("lists takeovers per account and clears them with the account", () => {
+    pauseSession({ accountId: "default", sessionId: "session_a", reason: "manual", cooldownMs: null });
+    pauseSession({ accountId: "other", sessionId: "session_b", reason: "handoff", cooldownMs: null });
+
+    expect(listTakeovers("other").map((state) => state.sessionId)).toEqual(["session_b"]);
+
+    clearTakeovers("default");
+    expect(listTakeovers().map((state) => state.sessionId)).toEqual(["session_b"]);
+  });
+});
+
+describe("isOwnMessage", () => {
+  it("recognizes the plugin's messages by fingerprint or by content", () => {
+    recordOwnFingerprint(424242);
+    recordOutgoingMessage("session_own", "Hello from the bot");
+
+    expect(isOwnMessage({ session_id: "session_own", fingerprint: 424242, content: "anything" })).toBe(true);
+    expect(isOwnMessage({ session_id: "session_own", fingerprint: 1, content: " Hello from the bot " })).toBe(true);
+    expect(isOwnMessage({ session_id: "session_other", fingerprint: 1, content: "Hello from the bot" })).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Operator Takeover
+ *
+ * Tracks conversations where a human operator took over, so the bot stops
+ * auto-replying next to them. A takeover either expires after a cooldown or
+ * lasts until it is explicitly resumed.
+ */
+
+import type { CrispMessageContent, CrispSendMessageParams } from "./types.js";
+import { createMessageFingerprint, type CrispApiClient } from "./api-client.js";
+import { createDedupeCache } from "./dedupe.js";
+
+export type TakeoverReason = "operator" | "assignment" | "manual" | "handoff";
+
+export interface TakeoverState {
+  accountId: string;
+  sessionId: string;
+  reason: TakeoverReason;
+  pausedAt: number;
+  /** When auto-replies may resume (null = until resumed explicitly) */
+  resumeAt: number | null;
+  /** Operator who took over, when known */
+  operator?: string;
+}
+
+// Paused sessions by Crisp session ID (session IDs are unique across websites)
+const takeovers = new Map<string, TakeoverState>();
+
+// Messages the plugin itself sent, so they are not mistaken for an operator
+const ownFingerprints = createDedupeCache({
+  maxEntries: 5000,
+  ttlMs: 60 * 60 * 1000, // 1 hour
+});
+const outgoingContent = createDedupeCache({
+  maxEntries: 1000,
+  ttlMs: 60 * 1000, // 1 minute, covers webhooks racing the send response
+});
+
+function contentKey(sessionId: string, content: CrispMessageContent | undefined): string {
+  return `${sessionId}:${typeof content === "string" ? content.trim() : JSON.stringify(content)}`;
+}
+
+/**
+ * Remember a message before sending it (its webhook may arrive before the fingerprint)
+ */
+export function recordOutgoingMessage(sessionId: string, content: CrispMessageContent): void {
+  outgoingContent.check(contentKey(sessionId, content));
+}
+
+/**
+ * Remember the fingerprint of a message the plugin sent
+ */
+export function recordOwnFingerprint(fingerprint: number): void {
+  ownFingerprints.check(String(fingerprint));
+}
+
+/**
+ * Whether an operator-side message was sent by this plugin
+ */
+export function isOwnMessage(message: {
+  session_id: string;
+  fingerprint?: number;
+  content?: CrispMessageContent;
+}): boolean {
+  if (message.fingerprint !== undefined && ownFingerprints.has(String(message.fingerprint))) {
+    return true;
+  }
+  return outgoingContent.has(contentKey(message.session_id, message.content));
+}
+
+/**
+ * Pause auto-replies for a session
+ */
+export function pauseSession(params: {
+  accountId: string;
+  sessionId: string;
+  reason: TakeoverReason;
+  /** How long to stay paused (null = until resumed) */
+  cooldownMs: number | null;
+  operator?: string;
+}): TakeoverState {
+  const now = Date.now();
+  const state: TakeoverState = {
+    accountId: params.accountId,
+    sessionId: params.sessionId,
+    reason: params.reason,
+    pausedAt: now,
+    resumeAt: params.cooldownMs === null ? null : now + params.cooldownMs,
+    operator: params.operator,
+  };
+
+  const existing = takeovers.get(params.sessionId);
+  // Never shorten an open-ended pause (manual/handoff) with an operator cooldown
+  if (existing && existing.resumeAt === null && state.resumeAt !== null) {
+    return existing;
+  }
+
+  takeovers.set(params.sessionId, state);
+  return state;
+}
+
+/**
+ * Resume auto-replies for a session (only if paused for `accountId`, when given).
+ * Returns false if it was not paused.
+ */
+export function resumeSession(sessionId: string, accountId?: string): boolean {
+  const state = takeovers.get(sessionId);
+  if (!state || (accountId && state.accountId !== accountId)) return false;
+  return takeovers.delete(sessionId);
+}
+
+/**
+ * Forget every takeover of an account (its conversations are gone)
+ */
+export function clearTakeovers(accountId: string): void {
+  for (const [sessionId, state] of takeovers) {
+    if (state.accountId === accountId) takeovers.delete(sessionId);
+  }
+}
+
+/**
+ * Get the active takeover of a session, if any
+ */
+export function getTakeoverState(sessionId: string): TakeoverState | null {
+  const state = takeovers.get(sessionId);
+  if (!state) return null;
+
+  if (state.resumeAt !== null && Date.now() >= state.resumeAt) {
+    takeovers.delete(sessionId);
+    return null;
+  }
+
+  return state;
+}
+
+/**
+ * List active takeovers (optionally for one account)
+ */
+export function listTakeovers(accountId?: string): TakeoverState[] {
+  const results: TakeoverState[] = [];
+  for (const sessionId of Array.from(takeovers.keys())) {
+    const state = getTakeoverState(sessionId);
+    if (state && (!accountId || state.accountId === accountId)) {
+      results.push(state);
+    }
+  }
+  return results;
+}
+
+/**
+ * Send a message and remember it as the plugin's own
+ */
+export async function sendOwnMessage(
+  client: CrispApiClient,
+  params: CrispSendMessageParams
+): Promise<{ fingerprint: number }> {
+  const fingerprint = params.fingerprint ?? createMessageFingerprint();
+  recordOutgoingMessage(params.sessionId, params.content);
+  recordOwnFingerprint(fingerprint);
+  const result = await client.sendMessage({ ...params, fingerprint });
+  recordOwnFingerprint(result.fingerprint);
+  return result;
+}
@@ -0,0 +1,328 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { handleTelegramWebhookRequest, runTelegramPolling, type TelegramApprovalContext, type TelegramMessage } from "./telegram-approval.js";
+import { sendTelegramNotification } from "./telegram-notify.js";
+import {
+  createMemoryPendingReplyStore,
+  getPendingReply,
+  initPendingReplyStore,
+  storePendingReply,
+  updatePendingReplyTelegram,
+  type PendingReply,
+} from "./pending-replies.js";
+import { CrispConfigSchema, type CrispConfig } from "./types.js";
+import { createFakeCrispServer, type FakeCrispServer } from "../test/fake-crisp-server.js";
+import { createFakeTelegramApi, type FakeTelegramApi } from "../test/fake-telegram-api.js";
+
+const BOT_TOKEN = "123456:test-bot-token";
+const CHAT_ID = "4242";
+const WEBHOOK_SECRET = "telegram-webhook-secret";
+
+interface Harness {
+  crisp: FakeCrispServer;
+  telegram: FakeTelegramApi;
+  config: CrispConfig;
+  ctx: TelegramApprovalContext;
+}
+
+interface Approval {
+  pending: PendingReply;
+  sessionId: string;
+  /** The notification as Telegram holds it */
+  notification: TelegramMessage;
+}
+
+const cleanups: Array<() => Promise<void>> = [];
+
+beforeEach(() => {
+  initPendingReplyStore({ store: createMemoryPendingReplyStore() });
+});
+
+afterEach(async () => {
+  while (cleanups.length > 0) await cleanups.pop()!();
+});
+
+async function listen(server: Server): Promise<number> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  cleanups.push(() => new Promise<void>((resolve) => server.close(() => resolve())));
+  return (server.address() as AddressInfo).port;
+}
+
+/**
+ * Approval context wired to a fake Telegram Bot API and a fake Crisp server
+ */
+async function startHarness(): Promise<Harness> {
+  const crisp = createFakeCrispServer();
+  const apiBaseUrl = await crisp.listen();
+  cleanups.push(() => crisp.close());
+
+  const telegram = createFakeTelegramApi({ botToken: BOT_TOKEN });
+  const config = CrispConfigSchema.parse({
+    websiteId: crisp.websiteId,
+    apiKeyId: "test-key",
+    apiKeySecret: "test-secret",
+    webhookSecret: "crisp-webhook-secret",
+    apiBaseUrl,
+    approvalMode: true,
+    approvalUpdates: "webhook",
+    telegramBotToken: BOT_TOKEN,
+    telegramWebhookSecret: WEBHOOK_SECRET,
+  });
+
+  const ctx: TelegramApprovalContext = {
+    botToken: BOT_TOKEN,
+    apiBaseUrl: telegram.apiBaseUrl,
+    fetch: telegram.fetch,
+    chatId: CHAT_ID,
+    locale: "en",
+    resolveConfig: (accountId) => (accountId === "default" ? config : null),
+  };
+
+  return { crisp, telegram, config, ctx };
+}
+
+/**
+ * Hold a reply for approval and post its notification, as the monitor does
+ */
+async function requestApproval(
+  h: Harness,
+  proposedReply = "Our shop opens at 9am.",
+  extra: Partial<PendingReply> = {}
+): Promise<Approval> {
+  const { session_id: sessionId } = h.crisp.createConversation({ nickname: "Vera" });
+  const pending = storePendingReply({
+    crispSessionId: sessionId,
+    crispWebsiteId: h.crisp.websiteId,
+    visitorName: "Vera",
+    visitorMessage: "When do you open?",
+    proposedReply,
+    accountId: "default",
+    ...extra,
+  });
+
+  const sent = await sendTelegramNotification({
+    ...h.ctx,
+    pendingId: pending.id,
+    visitorName: pending.visitorName,
+    visitorMessage: pending.visitorMessage,
+    proposedReply: pending.proposedReply,
+  });
+  expect(sent.ok).toBe(true);
+  updatePendingReplyTelegram(pending.id, String(sent.messageId), CHAT_ID);
+
+  const notification = h.telegram.sentMessages().find((message) => message.message_id === sent.messageId)!;
+  return { pending, sessionId, notification };
+}
+
+/**
+ * Gateway HTTP server running the real Telegram webhook handler
+ */
+async function startWebhook(h: Harness): Promise<(update: unknown, secret?: string) => Promise<Response>> {
+  const gateway = createServer(async (req, res) => {
+    if (!(await handleTelegramWebhookRequest(req, res, h.config, h.ctx))) {
+      res.writeHead(405);
+      res.end();
+    }
+  });
+  const url = `http://127.0.0.1:${await listen(gateway)}/crisp-telegram`;
+
+  return (update, secret = WEBHOOK_SECRET) =>
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Telegram-Bot-Api-Secret-Token": secret },
+      body: JSON.stringify(update),
+    });
+}
+
+/**
+ * Long-poll the fake Bot API for the rest of the test
+ */
+function startPolling(h: Harness): void {
+  const controller = new AbortController();
+  const polling = runTelegramPolling(h.ctx, controller.signal);
+  cleanups.push(async () => {
+    controller.abort();
+    await polling;
+  });
+}
+
+function operatorMessages(h: Harness, sessionId: string): string[] {
+  return h.crisp
+    .getMessages(sessionId)
+    .filter((message) => message.from === "operator")
+    .map((message) => String(message.content));
+}
+
+function callbackAnswers(h: Harness): unknown[] {
+  return h.telegram.callsTo("answerCallbackQuery").map((call) => call.body.text);
+}
+
+function editedTexts(h: Harness): string[] {
+  return h.telegram.callsTo("editMessageText").map((call) => String(call.body.text));
+}
+
+describe("Telegram approval webhook", () => {
+  it("sends the draft as is", async () => {
+    const h = await startHarness();
+    const post = await startWebhook(h);
+    const { pending, sessionId, notification } = await requestApproval(h);
+
+    const res = await post(h.telegram.buttonPress(`crisp_send_${pending.id}`, notification));
+
+    expect(res.status).toBe(200);
+    expect(operatorMessages(h, sessionId)).toEqual(["Our shop opens at 9am."]);
+    expect(getPendingReply(pending.id)).toBeNull();
+    expect(callbackAnswers(h)).toEqual(["Sent"]);
+    expect(editedTexts(h)).toEqual([expect.stringContaining("✅ Draft sent by @olivia")]);
+  });
+
+  it("discards the reply on ignore", async () => {
+    const h = await startHarness();
+    const post = await startWebhook(h);
+    const { pending, sessionId, notification } = await requestApproval(h);
+
+    await post(h.telegram.buttonPress(`crisp_ignore_${pending.id}`, notification));
+
+    expect(operatorMessages(h, sessionId)).toEqual([]);
+    expect(getPendingReply(pending.id)).toBeNull();
+    expect(callbackAnswers(h)).toEqual(["Ignored"]);
+    expect(editedTexts(h)).toEqual([expect.stringContaining("❌ Ignored by @olivia")]);
+  });
+
+  it("sends the reply once when the button is pressed twice", async () => {
+    const h = await startHarness();
+    const post = await startWebhook(h);
+    const { pending, sessionId, notification } = await requestApproval(h);
+
+    await Promise.all([
+      post(h.telegram.buttonPress(`crisp_send_${pending.id}`, notification)),
+      post(h.telegram.buttonPress(`crisp_send_${pending.id}`, notification)),
+    ]);
+
+    expect(operatorMessages(h, sessionId)).toEqual(["Our shop opens at 9am."]);
+    expect(callbackAnswers(h)).toEqual(expect.arrayContaining(["Sent", "Already handled or expired"]));
+  });
+
+  it("keeps the reply pending when Crisp refuses it", async () => {
+    const h = await startHarness();
+    const post = await startWebhook(h);
+    const { pending, sessionId, notification } = await requestApproval(h);
+
+    h.crisp.failNext(403);
+    await post(h.telegram.buttonPress(`crisp_send_${pending.id}`, notification));
+
+    expect(operatorMessages(h, sessionId)).toEqual([]);
+    expect(getPendingReply(pending.id)).not.toBeNull();
+    expect(callbackAnswers(h)).toEqual([expect.stringMatching(/^Failed to send: /)]);
+    expect(editedTexts(h)).toEqual([]);
+  });
+
+  it("refuses a draft whose placeholder values were lost in a restart", async () => {
+    const h = await startHarness();
+    const post = await startWebhook(h);
+    // As reloaded from the file store: the names survive, the values do not
+    const { pending, sessionId, notification } = await requestApproval(h, "We will write to [EMAIL_1].", {
+      placeholders: ["[EMAIL_1]"],
+    });
+
+    await post(h.telegram.buttonPress(`crisp_send_${pending.id}`, notification));
+
+    expect(operatorMessages(h, sessionId)).toEqual([]);
+    expect(getPendingReply(pending.id)).not.toBeNull();
+    expect(callbackAnswers(h)).toEqual([expect.stringContaining("lost in a restart")]);
+  });
+
+  it("speaks the account's language", async () => {
+    const h = await startHarness();
+    h.ctx.locale = "fr";
+    const post = await startWebhook(h);
+    const { pending, notification } = await requestApproval(h);
+
+    await post(h.telegram.buttonPress(`crisp_ignore_${pending.id}`, notification));
+
+    const [sent] = h.telegram.callsTo("sendMessage");
+    expect(String(sent.body.text)).toContain("Nouveau message Crisp");
+    expect(JSON.stringify(sent.body.reply_markup)).toContain("Envoyer tel quel");
+    expect(callbackAnswers(h)).toEqual(["Ignoré"]);
+    expect(editedTexts(h)).toEqual([expect.stringContaining("❌ Ignoré par @olivia")]);
+  });
+
+  it("refuses button presses from another chat", async () => {
+    const h = await startHarness();
+    const post = await startWebhook(h);
+    const { pending, sessionId, notification } = await requestApproval(h);
+
+    const elsewhere = { ...notification, chat: { id: 999 } };
+    await post(h.telegram.buttonPress(`crisp_send_${pending.id}`, elsewhere));
+    await post(h.telegram.replyTo(elsewhere, "Hijacked answer"));
+
+    expect(operatorMessages(h, sessionId)).toEqual([]);
+    expect(getPendingReply(pending.id)).not.toBeNull();
+    expect(callbackAnswers(h)).toEqual(["Not allowed from this chat"]);
+  });
+
+  it("rejects updates without the webhook secret", async () => {
+    const h = await startHarness();
+    const post = await startWebhook(h);
+    const { pending, sessionId, notification } = await requestApproval(h);
+    const update = h.telegram.buttonPress(`crisp_send_${pending.id}`, notification);
+
+    const wrong = await post(update, "not-the-webhook-secret");
+    const missing = await post(update, "");
+
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toEqual({ error: "Invalid secret" });
+    expect(missing.status).toBe(401);
+    expect(operatorMessages(h, sessionId)).toEqual([]);
+    expect(getPendingReply(pending.id)).not.toBeNull();
+    expect(h.telegram.callsTo("answerCallbackQuery")).toEqual([]);
+  });
+});
+
+describe("Telegram approval polling", () => {
+  it("sends an edited draft replied to the notification", async () => {
+    const h = await startHarness();
+    const { pending, sessionId, notification } = await requestApproval(h);
+    startPolling(h);
+
+    h.telegram.pushUpdate(h.telegram.buttonPress(`crisp_edit_${pending.id}`, notification));
+    await h.telegram.waitForCall((call) => call.method === "answerCallbackQuery");
+    h.telegram.pushUpdate(h.telegram.replyTo(notification, "We open at 10am on Sundays."));
+
+    await h.crisp.waitForMessage((message) => message.session_id === sessionId && message.from === "operator");
+    await h.telegram.waitForCall((call) => call.method === "editMessageText");
+
+    expect(operatorMessages(h, sessionId)).toEqual(["We open at 10am on Sundays."]);
+    expect(getPendingReply(pending.id)).toBeNull();
+    expect(callbackAnswers(h)).toEqual(["Reply to this message with the edited text"]);
+    expect(editedTexts(h)).toEqual([expect.stringContaining("✅ Sent by @olivia:\nWe open at 10am on Sundays.")]);
+  });
+
+  it("discards the reply on ignore", async () => {
+    const h = await startHarness();
+    const { pending, sessionId, notification } = await requestApproval(h);
+    startPolling(h);
+
+    h.telegram.pushUpdate(h.telegram.buttonPress(`crisp_ignore_${pending.id}`, notification));
+    await h.telegram.waitForCall((call) => call.method === "editMessageText");
+
+    expect(operatorMessages(h, sessionId)).toEqual([]);
+    expect(getPendingReply(pending.id)).toBeNull();
+    expect(callbackAnswers(h)).toEqual(["Ignored"]);
+  });
+
+  it("ignores replies from another chat", async () => {
+    const h = await startHarness();
+    const { pending, sessionId, notification } = await requestApproval(h);
+    startPolling(h);
+
+    h.telegram.pushUpdate(h.telegram.replyTo({ ...notification, chat: { id: 999 } }, "Hijacked answer"));
+    // Updates are handled in order, so this answer means the first one was processed
+    h.telegram.pushUpdate(h.telegram.buttonPress(`crisp_edit_${pending.id}`, notification));
+    await h.telegram.waitForCall((call) => call.method === "answerCallbackQuery");
+
+    expect(operatorMessages(h, sessionId)).toEqual([]);
+    expect(getPendingReply(pending.id)).not.toBeNull();
+  });
+});
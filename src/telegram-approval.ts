@@ -0,0 +1,381 @@
+/**
+ * Telegram Approval Handler
+ *
+ * Closes the human-in-the-loop loop: receives button presses and replies to
+ * approval notifications from Telegram, then sends (or drops) the Crisp reply.
+ * Updates arrive either through a webhook route or by long-polling getUpdates.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { CrispConfig } from "./types.js";
+import { parseJsonBody, sendCrispReply } from "./monitor.js";
+import { safeEqual } from "./webhook-auth.js";
+import {
+  claimPendingReply,
+  findPendingReplyByTelegramMessage,
+  getPendingReply,
+  removePendingReply,
+  restorePendingReply,
+  type PendingReply,
+} from "./pending-replies.js";
+import {
+  answerTelegramCallback,
+  editTelegramMessage,
+  getTelegramUpdates,
+  sendTelegramText,
+  type TelegramApiOptions,
+} from "./telegram-notify.js";
+import { importRedactions } from "./redaction.js";
+import { t, type Locale } from "./i18n.js";
+import { log } from "./logger.js";
+
+// ============================================================================
+// Telegram Bot API Types (subset)
+// ============================================================================
+
+export interface TelegramUser {
+  id: number;
+  first_name: string;
+  username?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: { id: number };
+  from?: TelegramUser;
+  text?: string;
+  reply_to_message?: TelegramMessage;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+export interface TelegramApprovalContext extends TelegramApiOptions {
+  /** Only updates from this chat are honored */
+  chatId: string;
+  /** Language of the approval messages */
+  locale?: Locale;
+  /** Resolve the Crisp config of the account a pending reply belongs to */
+  resolveConfig: (accountId: string) => CrispConfig | null;
+}
+
+const CALLBACK_PATTERN = /^crisp_(reply|send|edit|ignore)_([A-Z0-9]+)$/i;
+const POLL_TIMEOUT_SECONDS = 25;
+const POLL_RETRY_DELAY_MS = 5_000;
+
+function telegramApi(ctx: TelegramApprovalContext): TelegramApiOptions {
+  return { botToken: ctx.botToken, apiBaseUrl: ctx.apiBaseUrl, fetch: ctx.fetch };
+}
+
+function describeActor(ctx: TelegramApprovalContext, user?: TelegramUser): string {
+  if (!user) return t(ctx.locale, "approval.unknownActor");
+  return user.username ? `@${user.username}` : user.first_name;
+}
+
+/**
+ * Rewrite the approval notification with its outcome (also removes the buttons)
+ */
+async function markNotification(
+  ctx: TelegramApprovalContext,
+  message: TelegramMessage | undefined,
+  status: string
+): Promise<void> {
+  if (!message) return;
+
+  const result = await editTelegramMessage({
+    ...telegramApi(ctx),
+    chatId: ctx.chatId,
+    messageId: message.message_id,
+    text: `${message.text ?? ""}\n\n${status}`.trim(),
+  });
+
+  if (!result.ok) {
+    log.warn("Failed to update Telegram notification", { error: result.error });
+  }
+}
+
+/**
+ * Whether a text uses placeholders whose values did not survive a restart.
+ * The conversation may have numbered new values since, so restoring from it
+ * could put someone else's data in the reply.
+ */
+function hasLostPlaceholders(pending: PendingReply, text: string): boolean {
+  if (pending.redactions || !pending.placeholders) return false;
+  return pending.placeholders.some((placeholder) => text.includes(placeholder));
+}
+
+/**
+ * Send an operator's answer to Crisp and settle the pending entry. The entry
+ * is claimed before sending, so a double tap (or two operators approving at
+ * once) sends the reply only once; it is put back if the send fails.
+ */
+async function sendApprovedReply(
+  ctx: TelegramApprovalContext,
+  pending: PendingReply,
+  text: string
+): Promise<{ ok: boolean; error?: string; alreadyHandled?: boolean }> {
+  const config = ctx.resolveConfig(pending.accountId);
+  if (!config) {
+    return { ok: false, error: `Crisp account "${pending.accountId}" is not configured` };
+  }
+
+  if (hasLostPlaceholders(pending, text)) {
+    return { ok: false, error: t(ctx.locale, "approval.redactionsLost") };
+  }
+
+  if (!claimPendingReply(pending.id)) {
+    return { ok: false, alreadyHandled: true };
+  }
+
+  // Put the values back in case the conversation's table was evicted
+  importRedactions(pending.crispSessionId, pending.redactions);
+  const result = await sendCrispReply(config, pending.crispSessionId, pending.crispWebsiteId, text);
+  if (!result.ok) {
+    restorePendingReply(pending);
+  }
+  return result;
+}
+
+async function handleCallbackQuery(
+  ctx: TelegramApprovalContext,
+  query: TelegramCallbackQuery
+): Promise<void> {
+  const match = CALLBACK_PATTERN.exec(query.data ?? "");
+  if (!match) return;
+
+  if (String(query.message?.chat.id) !== ctx.chatId) {
+    await answerTelegramCallback({
+      ...telegramApi(ctx),
+      callbackQueryId: query.id,
+      text: t(ctx.locale, "approval.notAllowed"),
+    });
+    return;
+  }
+
+  const [, action, pendingId] = match;
+  const pending = getPendingReply(pendingId);
+  if (!pending) {
+    await answerTelegramCallback({
+      ...telegramApi(ctx),
+      callbackQueryId: query.id,
+      text: t(ctx.locale, "approval.alreadyHandled"),
+    });
+    await markNotification(ctx, query.message, t(ctx.locale, "approval.expired"));
+    return;
+  }
+
+  const actor = describeActor(ctx, query.from);
+
+  if (action === "ignore") {
+    if (!removePendingReply(pending.id)) {
+      await answerTelegramCallback({
+        ...telegramApi(ctx),
+        callbackQueryId: query.id,
+        text: t(ctx.locale, "approval.alreadyHandled"),
+      });
+      return;
+    }
+    log.info("Pending reply ignored", { pendingId: pending.id, accountId: pending.accountId, actor });
+    await answerTelegramCallback({ ...telegramApi(ctx), callbackQueryId: query.id, text: t(ctx.locale, "approval.ignored") });
+    await markNotification(ctx, query.message, t(ctx.locale, "approval.ignoredBy", { actor }));
+    return;
+  }
+
+  if (action === "send") {
+    if (!pending.proposedReply) {
+      await answerTelegramCallback({
+        ...telegramApi(ctx),
+        callbackQueryId: query.id,
+        text: t(ctx.locale, "approval.noDraft"),
+      });
+      return;
+    }
+
+    const result = await sendApprovedReply(ctx, pending, pending.proposedReply);
+    if (result.alreadyHandled) {
+      await answerTelegramCallback({
+        ...telegramApi(ctx),
+        callbackQueryId: query.id,
+        text: t(ctx.locale, "approval.alreadyHandled"),
+      });
+      return;
+    }
+    if (!result.ok) {
+      log.error("Failed to send draft", { pendingId: pending.id, accountId: pending.accountId, error: result.error });
+      await answerTelegramCallback({
+        ...telegramApi(ctx),
+        callbackQueryId: query.id,
+        text: t(ctx.locale, "approval.sendFailed", { error: result.error ?? "" }),
+      });
+      return;
+    }
+
+    log.info("Draft sent as is", { pendingId: pending.id, accountId: pending.accountId, actor });
+    await answerTelegramCallback({ ...telegramApi(ctx), callbackQueryId: query.id, text: t(ctx.locale, "approval.sent") });
+    await markNotification(ctx, query.message, t(ctx.locale, "approval.draftSentBy", { actor }));
+    return;
+  }
+
+  // "reply" / "edit": the answer itself comes as a Telegram reply to the notification
+  await answerTelegramCallback({
+    ...telegramApi(ctx),
+    callbackQueryId: query.id,
+    text: t(ctx.locale, action === "edit" ? "approval.promptEdit" : "approval.promptReply"),
+  });
+}
+
+async function handleReplyMessage(
+  ctx: TelegramApprovalContext,
+  message: TelegramMessage
+): Promise<void> {
+  const original = message.reply_to_message;
+  const text = message.text?.trim();
+  if (!original || !text) return;
+  if (String(message.chat.id) !== ctx.chatId) return;
+
+  const pending = findPendingReplyByTelegramMessage(String(original.message_id), ctx.chatId);
+  if (!pending) return;
+
+  const actor = describeActor(ctx, message.from);
+  const result = await sendApprovedReply(ctx, pending, text);
+
+  if (result.alreadyHandled) {
+    await sendTelegramText({
+      ...telegramApi(ctx),
+      chatId: ctx.chatId,
+      text: t(ctx.locale, "approval.expired"),
+      replyToMessageId: message.message_id,
+    });
+    return;
+  }
+  if (!result.ok) {
+    log.error("Failed to send approved reply", { pendingId: pending.id, accountId: pending.accountId, error: result.error });
+    await sendTelegramText({
+      ...telegramApi(ctx),
+      chatId: ctx.chatId,
+      text: t(ctx.locale, "approval.crispFailed", { error: result.error ?? "" }),
+      replyToMessageId: message.message_id,
+    });
+    return;
+  }
+
+  log.info("Pending reply answered", { pendingId: pending.id, accountId: pending.accountId, actor });
+  await markNotification(ctx, original, t(ctx.locale, "approval.sentBy", { actor, text }));
+}
+
+/**
+ * Process a single Telegram update
+ */
+export async function handleTelegramUpdate(
+  update: TelegramUpdate,
+  ctx: TelegramApprovalContext
+): Promise<void> {
+  if (update.callback_query) {
+    await handleCallbackQuery(ctx, update.callback_query);
+    return;
+  }
+
+  if (update.message?.reply_to_message) {
+    await handleReplyMessage(ctx, update.message);
+  }
+}
+
+/**
+ * Webhook handler for Telegram updates (register the URL with setWebhook)
+ */
+export async function handleTelegramWebhookRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  config: CrispConfig,
+  ctx: TelegramApprovalContext
+): Promise<boolean> {
+  if (req.method !== "POST") {
+    return false;
+  }
+
+  // Required by the config schema; without it every update is refused
+  const provided = req.headers["x-telegram-bot-api-secret-token"];
+  const expected = config.telegramWebhookSecret;
+  if (!expected || typeof provided !== "string" || !safeEqual(provided, expected)) {
+    log.warn("Invalid Telegram webhook secret", { remoteAddress: req.socket.remoteAddress });
+    res.writeHead(401, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Invalid secret" }));
+    return true;
+  }
+
+  try {
+    const update = await parseJsonBody(req) as TelegramUpdate;
+    await handleTelegramUpdate(update, ctx);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ok: true }));
+    return true;
+  } catch (err) {
+    log.error("Telegram webhook error", { error: err });
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Internal error" }));
+    return true;
+  }
+}
+
+/**
+ * Long-poll Telegram for approval updates until the signal aborts
+ */
+export async function runTelegramPolling(
+  ctx: TelegramApprovalContext,
+  signal: AbortSignal
+): Promise<void> {
+  let offset: number | undefined;
+
+  while (!signal.aborted) {
+    try {
+      const result = await getTelegramUpdates<TelegramUpdate>({
+        ...telegramApi(ctx),
+        offset,
+        timeoutSeconds: POLL_TIMEOUT_SECONDS,
+        signal,
+      });
+
+      if (!result.ok) {
+        log.error("Telegram getUpdates failed", { error: result.error });
+        await sleep(POLL_RETRY_DELAY_MS, signal);
+        continue;
+      }
+
+      for (const update of result.result) {
+        offset = update.update_id + 1;
+        try {
+          await handleTelegramUpdate(update, ctx);
+        } catch (err) {
+          log.error("Failed to handle Telegram update", { updateId: update.update_id, error: err });
+        }
+      }
+    } catch (err) {
+      if (signal.aborted) break;
+      log.error("Telegram polling error", { error: err });
+      await sleep(POLL_RETRY_DELAY_MS, signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
@@ -1,66 +1,207 @@
 /**
  * Telegram Notification Helper
- * 
+ *
  * Sends approval notifications directly to Telegram.
  */
 
-interface TelegramNotifyOptions {
+import { TELEGRAM_API_BASE, truncateText } from "./types.js";
+import { t, type Locale } from "./i18n.js";
+import { log } from "./logger.js";
+
+// Keep notifications under Telegram's 4096-char message limit
+const MAX_QUOTED_LENGTH = 1500;
+
+/**
+ * Bot credentials and transport shared by every Bot API call
+ */
+export interface TelegramApiOptions {
   botToken: string;
+  /** Bot API base URL (defaults to the public Telegram API) */
+  apiBaseUrl?: string;
+  /** Transport (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+interface TelegramNotifyOptions extends TelegramApiOptions {
   chatId: string;
   pendingId: string;
   visitorName: string;
   visitorMessage: string;
+  /** AI-generated draft awaiting approval (notify-only when empty) */
+  proposedReply?: string;
+  locale?: Locale;
+}
+
+type TelegramResult<T> = { ok: true; result: T } | { ok: false; error: string };
+
+/**
+ * Call a Telegram Bot API method
+ */
+export async function callTelegramApi<T>(
+  api: TelegramApiOptions,
+  method: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<TelegramResult<T>> {
+  const baseUrl = (api.apiBaseUrl ?? TELEGRAM_API_BASE).replace(/\/+$/, "");
+  const url = `${baseUrl}/bot${api.botToken}/${method}`;
+
+  const response = await (api.fetch ?? fetch)(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  const data = await response.json() as { ok: boolean; result?: T; description?: string };
+
+  if (!data.ok) {
+    return { ok: false, error: data.description || "Unknown error" };
+  }
+
+  return { ok: true, result: data.result as T };
 }
 
 /**
  * Send a Crisp message notification to Telegram with inline buttons
  */
 export async function sendTelegramNotification(opts: TelegramNotifyOptions): Promise<{ ok: boolean; messageId?: number; error?: string }> {
-  const { botToken, chatId, pendingId, visitorName, visitorMessage } = opts;
+  const { chatId, pendingId, visitorName, visitorMessage, proposedReply, locale } = opts;
 
-  const text = `🆕 *Nouveau message Crisp* \\[${pendingId}\\]\n\n` +
+  const header = `🆕 *${escapeMarkdown(t(locale, "approval.title"))}* \\[${pendingId}\\]\n\n` +
     `👤 *${escapeMarkdown(visitorName)}*\n` +
-    `💬 "${escapeMarkdown(visitorMessage)}"\n\n` +
-    `_Réponds à ce message pour envoyer ta réponse, ou ignore\\._`;
+    `💬 "${escapeMarkdown(truncateText(visitorMessage, MAX_QUOTED_LENGTH))}"\n\n`;
 
-  const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
+  const text = proposedReply
+    ? header +
+      `🤖 *${escapeMarkdown(t(locale, "approval.draft"))}*\n${escapeMarkdown(truncateText(proposedReply, MAX_QUOTED_LENGTH))}\n\n` +
+      `_${escapeMarkdown(t(locale, "approval.draftHint"))}_`
+    : header +
+      `_${escapeMarkdown(t(locale, "approval.replyHint"))}_`;
+
+  const buttons = proposedReply
+    ? [
+        { text: t(locale, "approval.sendAsIs"), callback_data: `crisp_send_${pendingId}` },
+        { text: t(locale, "approval.edit"), callback_data: `crisp_edit_${pendingId}` },
+        { text: t(locale, "approval.ignore"), callback_data: `crisp_ignore_${pendingId}` },
+      ]
+    : [
+        { text: t(locale, "approval.reply"), callback_data: `crisp_reply_${pendingId}` },
+        { text: t(locale, "approval.ignore"), callback_data: `crisp_ignore_${pendingId}` },
+      ];
 
   try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text,
-        parse_mode: "MarkdownV2",
-        reply_markup: {
-          inline_keyboard: [
-            [
-              { text: "✅ Répondre", callback_data: `crisp_reply_${pendingId}` },
-              { text: "❌ Ignorer", callback_data: `crisp_ignore_${pendingId}` },
-            ],
-          ],
-        },
-      }),
+    const result = await callTelegramApi<{ message_id: number }>(opts, "sendMessage", {
+      chat_id: chatId,
+      text,
+      parse_mode: "MarkdownV2",
+      reply_markup: {
+        inline_keyboard: [buttons],
+      },
     });
 
-    const data = await response.json() as { ok: boolean; result?: { message_id: number }; description?: string };
-
-    if (!data.ok) {
-      console.error(`[crisp] Telegram API error:`, data);
-      return { ok: false, error: data.description || "Unknown error" };
+    if (!result.ok) {
+      log.error("Telegram API error", { method: "sendMessage", error: result.error });
+      return { ok: false, error: result.error };
     }
 
-    return { ok: true, messageId: data.result?.message_id };
+    return { ok: true, messageId: result.result.message_id };
+  } catch (err) {
+    log.error("Failed to send Telegram notification", { error: err });
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Send a plain text message, optionally as a reply
+ */
+export async function sendTelegramText(opts: TelegramApiOptions & {
+  chatId: string;
+  text: string;
+  replyToMessageId?: number;
+}): Promise<{ ok: boolean; messageId?: number; error?: string }> {
+  const { chatId, text, replyToMessageId } = opts;
+
+  try {
+    const result = await callTelegramApi<{ message_id: number }>(opts, "sendMessage", {
+      chat_id: chatId,
+      text,
+      ...(replyToMessageId ? { reply_parameters: { message_id: replyToMessageId } } : {}),
+    });
+    return result.ok
+      ? { ok: true, messageId: result.result.message_id }
+      : { ok: false, error: result.error };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Replace the text of a message and drop its inline keyboard
+ */
+export async function editTelegramMessage(opts: TelegramApiOptions & {
+  chatId: string;
+  messageId: number;
+  text: string;
+}): Promise<{ ok: boolean; error?: string }> {
+  const { chatId, messageId, text } = opts;
+
+  try {
+    const result = await callTelegramApi<unknown>(opts, "editMessageText", {
+      chat_id: chatId,
+      message_id: messageId,
+      text,
+    });
+    return result.ok ? { ok: true } : { ok: false, error: result.error };
   } catch (err) {
-    console.error(`[crisp] Failed to send Telegram notification:`, err);
     return { ok: false, error: err instanceof Error ? err.message : String(err) };
   }
 }
 
+/**
+ * Acknowledge an inline button press (stops the client-side spinner)
+ */
+export async function answerTelegramCallback(opts: TelegramApiOptions & {
+  callbackQueryId: string;
+  text?: string;
+}): Promise<void> {
+  const { callbackQueryId, text } = opts;
+
+  try {
+    await callTelegramApi<boolean>(opts, "answerCallbackQuery", {
+      callback_query_id: callbackQueryId,
+      ...(text ? { text } : {}),
+    });
+  } catch (err) {
+    log.warn("Failed to answer Telegram callback", { error: err });
+  }
+}
+
+/**
+ * Long-poll for bot updates
+ */
+export async function getTelegramUpdates<T>(opts: TelegramApiOptions & {
+  offset?: number;
+  timeoutSeconds: number;
+  signal?: AbortSignal;
+}): Promise<TelegramResult<T[]>> {
+  const { offset, timeoutSeconds, signal } = opts;
+
+  return callTelegramApi<T[]>(
+    opts,
+    "getUpdates",
+    {
+      offset,
+      timeout: timeoutSeconds,
+      allowed_updates: ["message", "callback_query"],
+    },
+    signal
+  );
+}
+
 /**
  * Escape special characters for Telegram MarkdownV2
  */
 function escapeMarkdown(text: string): string {
-  return text.replace(/[_*\[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
 }
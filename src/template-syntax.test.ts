@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { parseTemplate, renderTemplate, selectTemplateVariant, TemplateError, validateTemplate } from "./template-syntax.js";
+
+describe("renderTemplate", () => {
+  it("fills variables and falls back when they are empty", () => {
+    expect(renderTemplate("Hello {name|there}!", { name: "Vera" })).toBe("Hello Vera!");
+    expect(renderTemplate("Hello {name|there}!", { name: "" })).toBe("Hello there!");
+    expect(renderTemplate("Hello {name}!", {})).toBe("Hello !");
+  });
+
+  it("renders conditional sections", () => {
+    const template = "Thanks!{#if email} We'll answer at {email}.{else} Leave us your email.{/if}";
+
+    expect(renderTemplate(template, { email: "vera@example.com" })).toBe("Thanks! We'll answer at vera@example.com.");
+    expect(renderTemplate(template, {})).toBe("Thanks! Leave us your email.");
+  });
+
+  it("nests sections and tidies the spaces they leave", () => {
+    const template = "Hi {#if name}{name} {#if city}from {city}{/if}{/if} !";
+
+    expect(renderTemplate(template, { name: "Vera", city: "Lyon" })).toBe("Hi Vera from Lyon !");
+    expect(renderTemplate(template, { name: "Vera" })).toBe("Hi Vera !");
+    expect(renderTemplate(template, {})).toBe("Hi !");
+  });
+
+  it("keeps braces that are not tags", () => {
+    expect(renderTemplate('Reply with {"ok": true} or { name }', { name: "Vera" })).toBe('Reply with {"ok": true} or { name }');
+  });
+
+  it("renders the variant of the visitor's locale", () => {
+    const template = { default: "Hello {name}!", fr: "Bonjour {name} !" };
+
+    expect(renderTemplate(template, { name: "Vera" }, "fr-CA")).toBe("Bonjour Vera !");
+    expect(renderTemplate(template, { name: "Vera" }, "de")).toBe("Hello Vera!");
+  });
+});
+
+describe("selectTemplateVariant", () => {
+  it("prefers the exact locale, then the language, then the default", () => {
+    const template = { default: "default", pt: "pt", "pt-BR": "pt-BR" };
+
+    expect(selectTemplateVariant(template, "pt_br")).toBe("pt-BR");
+    expect(selectTemplateVariant(template, "pt-PT")).toBe("pt");
+    expect(selectTemplateVariant(template, undefined)).toBe("default");
+    expect(selectTemplateVariant("only", "fr")).toBe("only");
+  });
+});
+
+describe("parseTemplate", () => {
+  it("rejects unknown variables and unbalanced sections", () => {
+    expect(() => parseTemplate("Hi {nmae}")).toThrow(TemplateError);
+    expect(() => parseTemplate("Hi {nmae}")).toThrow(/Unknown variable "nmae" \(available: name, email/);
+    expect(() => parseTemplate("{#if email}Hi")).toThrow("Unclosed {#if email}");
+    expect(() => parseTemplate("Hi{/if}")).toThrow("Unexpected {/if} at position 2");
+    expect(() => parseTemplate("{#if name}a{else}b{else}c{/if}")).toThrow("Unexpected {else} at position 18");
+  });
+});
+
+describe("validateTemplate", () => {
+  it("reports errors per locale and a missing default", () => {
+    expect(validateTemplate("Hello {name}")).toEqual([]);
+    expect(validateTemplate({ fr: "Bonjour {nom}" })).toEqual([
+      { message: 'Per-locale templates need a "default" variant' },
+      { locale: "fr", message: expect.stringContaining('Unknown variable "nom"') },
+    ]);
+  });
+});
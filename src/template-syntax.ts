@@ -0,0 +1,159 @@
+/**
+ * Template Syntax
+ *
+ * Parser and renderer of the canned message templates (see templates.ts).
+ * Kept free of imports so the config schema can validate templates.
+ */
+
+export const TEMPLATE_VARIABLES = [
+  "name",
+  "email",
+  "phone",
+  "country",
+  "city",
+  "operatorName",
+  "dashboardUrl",
+  "sessionId",
+  "websiteId",
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+export type TemplateVariables = Partial<Record<TemplateVariable, string>>;
+
+/** A template string, or per-locale variants (must include "default") */
+export type MessageTemplate = string | Record<string, string>;
+
+type TemplateNode =
+  | { kind: "text"; value: string }
+  | { kind: "var"; name: string; fallback: string }
+  | { kind: "if"; name: string; then: TemplateNode[]; else: TemplateNode[] };
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+const TAG_PATTERN = /\{(?:#if\s+([A-Za-z]\w*)|(else)|(\/if)|([A-Za-z]\w*)(?:\|([^{}]*))?)\}/g;
+const KNOWN_VARIABLES = new Set<string>(TEMPLATE_VARIABLES);
+
+/**
+ * Parse a template. Braces that are not tags are kept as text.
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open sections, innermost last; `target` is where nodes currently go
+  const stack: Array<{ node: Extract<TemplateNode, { kind: "if" }>; inElse: boolean }> = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, ifName, elseTag, endIf, varName, fallback] = match;
+    if (match.index > lastIndex) {
+      target().push({ kind: "text", value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + tag.length;
+
+    const name = ifName ?? varName;
+    if (name && !KNOWN_VARIABLES.has(name)) {
+      throw new TemplateError(
+        `Unknown variable "${name}" (available: ${TEMPLATE_VARIABLES.join(", ")})`
+      );
+    }
+
+    if (ifName) {
+      const node: TemplateNode = { kind: "if", name: ifName, then: [], else: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (elseTag) {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new TemplateError(`Unexpected {else} at position ${match.index}`);
+      top.inElse = true;
+    } else if (endIf) {
+      if (!stack.pop()) throw new TemplateError(`Unexpected {/if} at position ${match.index}`);
+    } else {
+      target().push({ kind: "var", name: varName, fallback: fallback ?? "" });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Unclosed {#if ${stack[stack.length - 1].node.name}}`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ kind: "text", value: source.slice(lastIndex) });
+  }
+  return root;
+}
+
+/**
+ * Validate a template (string or per-locale variants); returns error messages
+ */
+export function validateTemplate(template: MessageTemplate): Array<{ locale?: string; message: string }> {
+  const variants = typeof template === "string" ? { "": template } : template;
+  const errors: Array<{ locale?: string; message: string }> = [];
+
+  if (typeof template !== "string" && !("default" in template)) {
+    errors.push({ message: `Per-locale templates need a "default" variant` });
+  }
+
+  for (const [locale, source] of Object.entries(variants)) {
+    try {
+      parseTemplate(source);
+    } catch (err) {
+      errors.push({ locale: locale || undefined, message: (err as Error).message });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Pick the variant for a locale: exact match, then language, then default
+ */
+export function selectTemplateVariant(template: MessageTemplate, locale?: string): string {
+  if (typeof template === "string") return template;
+
+  if (locale) {
+    const normalized = locale.toLowerCase().replace("_", "-");
+    const language = normalized.split("-")[0];
+    for (const [key, source] of Object.entries(template)) {
+      if (key.toLowerCase().replace("_", "-") === normalized) return source;
+    }
+    for (const [key, source] of Object.entries(template)) {
+      if (key.toLowerCase() === language) return source;
+    }
+  }
+
+  return template.default ?? Object.values(template)[0] ?? "";
+}
+
+function renderNodes(nodes: TemplateNode[], vars: TemplateVariables): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case "text":
+          return node.value;
+        case "var":
+          return vars[node.name as TemplateVariable] || node.fallback;
+        case "if":
+          return renderNodes(vars[node.name as TemplateVariable] ? node.then : node.else, vars);
+      }
+    })
+    .join("");
+}
+
+/**
+ * Render a template for a visitor
+ */
+export function renderTemplate(
+  template: MessageTemplate,
+  vars: TemplateVariables,
+  locale?: string
+): string {
+  return renderNodes(parseTemplate(selectTemplateVariant(template, locale)), vars)
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { createCrispClient } from "./api-client.js";
+import { buildTemplateVariables, sendTemplateMessage } from "./templates.js";
+import { CrispConfigSchema } from "./types.js";
+import { createFakeCrispServer } from "../test/fake-crisp-server.js";
+
+const WEBSITE_ID = "11111111-1111-4111-8111-111111111111";
+
+const config = CrispConfigSchema.parse({
+  websiteId: WEBSITE_ID,
+  apiKeyId: "key",
+  apiKeySecret: "secret",
+  webhookSecret: "templates-webhook-secret",
+  operatorName: "Olivia",
+});
+
+describe("buildTemplateVariables", () => {
+  it("prefers conversation meta over the tracked session", () => {
+    const vars = buildTemplateVariables({
+      config,
+      websiteId: WEBSITE_ID,
+      sessionId: "session_vars",
+      session: {
+        sessionId: "session_vars",
+        websiteId: WEBSITE_ID,
+        accountId: "default",
+        visitorName: "Visitor",
+        visitorEmail: "old@example.com",
+        startedAt: 0,
+        lastMessageAt: 0,
+        messageCount: 1,
+        isNew: true,
+      },
+      meta: { nickname: "Vera", email: "vera@example.com", device: { geolocation: { country: "France", city: "Lyon" } } },
+    });
+
+    expect(vars).toEqual({
+      name: "Vera",
+      email: "vera@example.com",
+      phone: undefined,
+      country: "France",
+      city: "Lyon",
+      operatorName: "Olivia",
+      dashboardUrl: `https://app.crisp.chat/website/${WEBSITE_ID}/inbox/session_vars`,
+      sessionId: "session_vars",
+      websiteId: WEBSITE_ID,
+    });
+  });
+
+  it("leaves the generic visitor name out so fallbacks apply", () => {
+    expect(buildTemplateVariables({ config, websiteId: WEBSITE_ID, sessionId: "session_anon", visitorName: "Visitor" }).name).toBeUndefined();
+  });
+});
+
+describe("sendTemplateMessage", () => {
+  it("renders in the visitor's language and sends as the plugin", async () => {
+    const crisp = createFakeCrispServer();
+    crisp.createConversation({ sessionId: "session_greet", nickname: "Vera", locales: ["fr-FR"] });
+    const client = createCrispClient({ apiKeyId: "key", apiKeySecret: "secret", baseUrl: crisp.baseUrl, fetch: crisp.fetch });
+
+    const text = await sendTemplateMessage({
+      client,
+      config,
+      template: { default: "Hello {name}, I'm {operatorName}.", fr: "Bonjour {name}, c'est {operatorName}." },
+      websiteId: crisp.websiteId,
+      sessionId: "session_greet",
+    });
+
+    expect(text).toBe("Bonjour Vera, c'est Olivia.");
+    expect(crisp.getMessages("session_greet")).toEqual([
+      expect.objectContaining({ from: "operator", type: "text", content: "Bonjour Vera, c'est Olivia." }),
+    ]);
+  });
+
+  it("sends nothing when the template renders empty", async () => {
+    const crisp = createFakeCrispServer();
+    crisp.createConversation({ sessionId: "session_empty" });
+    const client = createCrispClient({ apiKeyId: "key", apiKeySecret: "secret", baseUrl: crisp.baseUrl, fetch: crisp.fetch });
+
+    expect(await sendTemplateMessage({ client, config, template: "{#if email}{email}{/if}", websiteId: crisp.websiteId, sessionId: "session_empty" })).toBeNull();
+    expect(crisp.getMessages("session_empty")).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Canned Message Templates
+ *
+ * Small templating language for the messages the plugin sends on its own
+ * (greeting, out-of-hours, handoff confirmation):
+ *
+ *   Hello {name|there}! {#if email}We'll answer at {email}.{else}Leave us your email.{/if}
+ *
+ * A template is either one string or per-locale variants with a `default`:
+ *
+ *   { default: "Hello {name}!", fr: "Bonjour {name} !" }
+ *
+ * The syntax itself lives in template-syntax.ts.
+ */
+
+import type { CrispConfig, CrispConversation, CrispSessionState } from "./types.js";
+import type { CrispApiClient } from "./api-client.js";
+import { buildCrispDashboardUrl } from "./dashboard.js";
+import { renderTemplate, type MessageTemplate, type TemplateVariables } from "./template-syntax.js";
+import { sendOwnMessage } from "./takeover.js";
+import { log } from "./logger.js";
+
+/**
+ * Collect template variables from the tracked session and conversation meta
+ */
+export function buildTemplateVariables(params: {
+  config: CrispConfig;
+  websiteId: string;
+  sessionId: string;
+  visitorName?: string;
+  session?: CrispSessionState;
+  meta?: CrispConversation["meta"];
+}): TemplateVariables {
+  const { config, websiteId, sessionId, session, meta } = params;
+  const name = meta?.nickname || session?.visitorName || params.visitorName;
+
+  return {
+    // The "Visitor" placeholder reads badly in a greeting; let {name|...} fall back instead
+    name: name && name !== "Visitor" ? name : undefined,
+    email: meta?.email || session?.visitorEmail,
+    phone: meta?.phone,
+    country: meta?.device?.geolocation?.country,
+    city: meta?.device?.geolocation?.city,
+    operatorName: config.operatorName,
+    dashboardUrl: buildCrispDashboardUrl(websiteId, sessionId),
+    sessionId,
+    websiteId,
+  };
+}
+
+/**
+ * Render and send a canned message (conversation meta is fetched best effort
+ * unless the caller passes it)
+ */
+export async function sendTemplateMessage(params: {
+  client: CrispApiClient;
+  config: CrispConfig;
+  template: MessageTemplate;
+  websiteId: string;
+  sessionId: string;
+  visitorName?: string;
+  session?: CrispSessionState;
+  locale?: string;
+  /** Conversation already fetched by the caller (fetched here otherwise) */
+  conversation?: CrispConversation;
+}): Promise<string | null> {
+  const { client, websiteId, sessionId } = params;
+
+  let meta = params.conversation?.meta;
+  if (!params.conversation) {
+    try {
+      meta = (await client.getConversation(websiteId, sessionId)).meta;
+    } catch (err) {
+      log.warn("Failed to fetch conversation meta", { sessionId, error: err });
+    }
+  }
+
+  // Visitor-facing: follow the visitor's browser language
+  const locale = params.locale ?? params.session?.visitorLocale ?? meta?.device?.locales?.[0];
+  const text = renderTemplate(params.template, buildTemplateVariables({ ...params, meta }), locale);
+  if (!text) return null;
+
+  await sendOwnMessage(client, { websiteId, sessionId, content: text });
+  return text;
+}
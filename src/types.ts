@@ -3,30 +3,157 @@
  */
 
 import { z } from "zod";
+import { validateTemplate } from "./template-syntax.js";
+import { LOCALES, localizedTemplate } from "./i18n.js";
+import { BUILTIN_DETECTORS } from "./redaction.js";
+import { secretString, type SecretField } from "./secrets.js";
+
+export { buildCrispDashboardUrl } from "./dashboard.js";
 
 // ============================================================================
 // Config Types
 // ============================================================================
 
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const BusinessHoursSchema = z.object({
+  /** IANA timezone the schedule is expressed in */
+  timezone: z.string().refine(isValidTimeZone, "Unknown IANA timezone").default("UTC"),
+  /** Opening windows, e.g. { days: ["mon", "tue"], open: "09:00", close: "18:00" } */
+  schedule: z.array(
+    z.object({
+      days: z.array(z.enum(WEEKDAYS)).min(1),
+      open: z.string().regex(TIME_OF_DAY, "Expected HH:MM"),
+      close: z.string().regex(TIME_OF_DAY, "Expected HH:MM"),
+    })
+  ).default([]),
+  /** Dates (YYYY-MM-DD, in the schedule timezone) the office is closed */
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")).default([]),
+});
+
+export type BusinessHours = z.infer<typeof BusinessHoursSchema>;
+
+/** Canned message: one template, or per-locale variants with a "default" */
+export const MessageTemplateSchema = z
+  .union([z.string(), z.record(z.string())])
+  .superRefine((template, ctx) => {
+    for (const error of validateTemplate(template)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: error.locale ? [error.locale] : [],
+        message: error.message,
+      });
+    }
+  });
+
+/**
+ * What the agent may learn about the visitor, per category.
+ * Segments and custom data take names/keys ("*" allows all).
+ */
+export const VisitorProfileSchema = z.object({
+  enabled: z.boolean().default(true),
+  contact: z.array(z.enum(["nickname", "email", "phone", "address"])).default([]),
+  location: z.array(z.enum(["country", "region", "city"])).default(["country"]),
+  device: z.array(z.enum(["os", "browser", "timezone", "locales"])).default([]),
+  company: z.array(z.enum(["company", "companyUrl", "jobTitle", "jobRole"])).default([]),
+  segments: z.array(z.string().min(1)).default(["*"]),
+  data: z.array(z.string().min(1)).default([]),
+  page: z.array(z.enum(["url", "title", "referrer"])).default([]),
+});
+
+export type VisitorProfileConfig = z.infer<typeof VisitorProfileSchema>;
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Which personal data is masked before it reaches the model, logs and Telegram
+ */
+export const RedactionSchema = z.object({
+  /** Built-in detectors to run */
+  detectors: z.array(z.enum(BUILTIN_DETECTORS)).default([]),
+  /** Extra detectors; `name` becomes the placeholder label */
+  customPatterns: z.array(
+    z.object({
+      name: z.string().regex(/^[A-Za-z][\w-]*$/, "Use letters, digits, _ and -"),
+      pattern: z.string().min(1).refine(isValidRegex, "Invalid regular expression"),
+      flags: z.string().regex(/^[gimsuy]*$/, "Invalid regular expression flags").default(""),
+    })
+  ).default([]),
+  /** Detector names whose values are restored in the agent's replies */
+  reversible: z.array(z.string()).default([]),
+}).superRefine((redaction, ctx) => {
+  const known = new Set<string>([...redaction.detectors, ...redaction.customPatterns.map((custom) => custom.name)]);
+  redaction.reversible.forEach((name, index) => {
+    if (!known.has(name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["reversible", index],
+        message: `"${name}" is not an enabled detector or custom pattern`,
+      });
+    }
+  });
+});
+
+export type RedactionConfig = z.infer<typeof RedactionSchema>;
+
 export const CrispConfigSchema = z.object({
   /** Crisp website ID (UUID) */
   websiteId: z.string().uuid(),
   /** Crisp API key identifier */
   apiKeyId: z.string().min(1),
-  /** Crisp API key secret */
-  apiKeySecret: z.string().min(1),
+  /** Crisp API key secret (literal, `env:NAME` or `file:/path`) */
+  apiKeySecret: secretString(z.string().min(1)),
+  /** Crisp REST API base URL (a proxy, or a fake server in tests) */
+  apiBaseUrl: z.string().url().optional(),
   /** Webhook endpoint path */
   webhookPath: z.string().default("/crisp-webhook"),
-  /** Secret for webhook URL validation */
-  webhookSecret: z.string().min(16),
+  /** Secret for webhook URL validation (`?secret=` query parameter; literal or reference) */
+  webhookSecret: secretString(z.string().min(16)).optional(),
+  /** How webhook deliveries are authenticated */
+  webhookVerification: z.enum(["secret", "signature", "both"]).default("secret"),
+  /** Crisp signing secret used to verify X-Crisp-Signature (literal or reference) */
+  webhookSigningSecret: secretString(z.string().min(1)).optional(),
+  /** Maximum age (seconds) of a signed delivery before it is rejected as a replay */
+  webhookMaxSkewSeconds: z.number().int().min(1).default(300),
   /** Enable/disable the channel */
   enabled: z.boolean().default(true),
   /** Display name for this account */
   name: z.string().optional(),
   /** AI auto-responds to visitors (disabled by default) */
   autoReply: z.boolean().default(false),
-  /** Auto-reply message template ({name} will be replaced with visitor name) */
-  autoReplyMessage: z.string().default("Hello {name}! Thanks for reaching out. We'll get back to you shortly."),
+  /** Out-of-hours message template (see templates.ts for variables and sections) */
+  autoReplyMessage: MessageTemplateSchema.default(localizedTemplate("visitor.autoReply")),
+  /** Greeting sent on the first message of a new conversation */
+  greetingMessage: MessageTemplateSchema.optional(),
+  /** Confirmation sent to the visitor when the conversation is handed to a human */
+  handoffMessage: MessageTemplateSchema.optional(),
+  /** When the bot answers: always, only outside business hours, only when no operator is online, or either */
+  replyPolicy: z.enum(["always", "outside_hours", "no_operator", "outside_hours_or_no_operator"]).default("always"),
+  /** Office hours used by the reply policy */
+  businessHours: BusinessHoursSchema.optional(),
+  /** Out-of-hours answers: let the agent reply, or send autoReplyMessage once per conversation */
+  outOfHoursReply: z.enum(["agent", "template"]).default("agent"),
+  /** Language of operator-facing messages (Telegram approvals, notifications, notes) */
+  locale: z.enum(LOCALES).default("en"),
   /** Name shown as operator in Crisp */
   operatorName: z.string().default("Assistant"),
   /** Avatar URL for operator */
@@ -35,24 +162,179 @@ export const CrispConfigSchema = z.object({
   notifyOnNew: z.boolean().default(false),
   /** Target for notifications (e.g., telegram:123456) */
   notifyTarget: z.string().optional(),
+  /** Wait this long after a visitor message for more before replying (0 = reply to each message) */
+  debounceMs: z.number().int().min(0).max(60_000).default(0),
+  /** Maximum visitor messages merged into one agent turn */
+  maxBurstMessages: z.number().int().min(1).max(50).default(5),
+  /** Largest visitor attachment (MB) downloaded for the agent */
+  mediaMaxMb: z.number().int().min(1).max(100).default(20),
   /** Messages to include as AI context */
   historyLimit: z.number().int().min(0).max(50).default(10),
+  /** Visitor details passed to the agent (allow-list per category) */
+  visitorProfile: VisitorProfileSchema.default({}),
+  /** PII masking for the model, logs and Telegram (off until detectors are set) */
+  redaction: RedactionSchema.default({}),
+  /** Pause auto-replies when a human operator answers or is assigned */
+  takeoverDetection: z.boolean().default(true),
+  /** Minutes after the last operator activity before the bot may reply again (0 = until resumed) */
+  takeoverCooldownMinutes: z.number().int().min(0).default(30),
+  /** Visitor keywords that hand the conversation to a human right away (case-insensitive, whole words) */
+  handoffKeywords: z.array(z.string().min(1)).default([]),
+  /** Crisp operator user ID to assign on handoff (routing rules are used when unset) */
+  handoffOperatorId: z.string().optional(),
+  /** Segment added to conversations handed off to a human */
+  handoffSegment: z.string().min(1).default("needs-human"),
+  /** Mark visitor messages as read when the bot picks them up */
+  markRead: z.boolean().default(true),
+  /** Show the operator typing indicator while the agent is thinking */
+  typingIndicator: z.boolean().default(true),
   /** Mark conversation resolved after reply */
   resolveOnReply: z.boolean().default(false),
   /** Human-in-the-loop approval mode: send to Telegram for approval before replying */
   approvalMode: z.boolean().default(false),
+  /** Approval style: "draft" has the AI propose a reply, "notify" lets the human write it */
+  approvalStyle: z.enum(["draft", "notify"]).default("draft"),
   /** Telegram chat ID for approval notifications */
   approvalChatId: z.string().optional(),
-  /** Telegram bot token (from Clawdbot config) */
-  telegramBotToken: z.string().optional(),
+  /** Telegram bot token (from Clawdbot config; literal or reference) */
+  telegramBotToken: secretString(z.string()).optional(),
+  /** Telegram Bot API base URL (a local Bot API server, or a fake in tests) */
+  telegramApiBaseUrl: z.string().url().optional(),
+  /** How approval decisions come back from Telegram ("off" leaves it to an external agent) */
+  approvalUpdates: z.enum(["off", "webhook", "polling"]).default("off"),
+  /** Webhook path for Telegram updates when approvalUpdates is "webhook" */
+  telegramWebhookPath: z.string().default("/crisp-telegram"),
+  /** Secret token registered with Telegram setWebhook (checked against X-Telegram-Bot-Api-Secret-Token; required for webhook updates) */
+  telegramWebhookSecret: secretString(z.string().min(16)).optional(),
+  /** Storage backend for pending approvals ("file" survives restarts; channel-level) */
+  pendingStore: z.enum(["file", "memory"]).default("file"),
+  /** Path of the pending approvals file (defaults to <stateDir>/crisp/pending-replies.json; channel-level) */
+  pendingStorePath: z.string().optional(),
+  /** Minutes before an unanswered approval expires (channel-level) */
+  pendingReplyTtlMinutes: z.number().int().min(1).default(60),
+}).superRefine((config, ctx) => {
+  if (config.replyPolicy.includes("outside_hours") && !config.businessHours) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["businessHours"],
+      message: `businessHours is required when replyPolicy is "${config.replyPolicy}"`,
+    });
+  }
+
+  const mode = config.webhookVerification;
+  if (mode !== "signature" && !config.webhookSecret) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["webhookSecret"],
+      message: `webhookSecret is required when webhookVerification is "${mode}"`,
+    });
+  }
+  if (mode !== "secret" && !config.webhookSigningSecret) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["webhookSigningSecret"],
+      message: `webhookSigningSecret is required when webhookVerification is "${mode}"`,
+    });
+  }
+
+  if (config.approvalUpdates === "webhook" && !config.telegramWebhookSecret) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["telegramWebhookSecret"],
+      message: 'telegramWebhookSecret is required when approvalUpdates is "webhook"',
+    });
+  }
 });
 
 export type CrispConfig = z.infer<typeof CrispConfigSchema>;
 
+/**
+ * Settings shared by every account (the pending approvals store is global).
+ * They are read from the top level of `channels.crisp` only.
+ */
+export const CHANNEL_LEVEL_SETTINGS = ["pendingStore", "pendingStorePath", "pendingReplyTtlMinutes"] as const;
+
+export const CrispChannelSettingsSchema = CrispConfigSchema.innerType().pick({
+  pendingStore: true,
+  pendingStorePath: true,
+  pendingReplyTtlMinutes: true,
+});
+
+export type CrispChannelSettings = z.infer<typeof CrispChannelSettingsSchema>;
+
 // ============================================================================
 // Crisp API Types
 // ============================================================================
 
+export interface CrispFileContent {
+  name: string;
+  url: string;
+  type: string;
+}
+
+export interface CrispAnimationContent {
+  url: string;
+  type?: string;
+}
+
+export interface CrispAudioContent {
+  url: string;
+  type: string;
+  duration?: number;
+}
+
+export interface CrispPickerChoice {
+  value: string;
+  label: string;
+  selected: boolean;
+  icon?: string;
+  action?: {
+    type: "frame" | "link";
+    target: string;
+  };
+}
+
+export interface CrispPickerContent {
+  id: string;
+  text: string;
+  choices: CrispPickerChoice[];
+  required?: boolean;
+}
+
+export interface CrispFieldContent {
+  id: string;
+  text: string;
+  explain?: string;
+  value?: string;
+  required?: boolean;
+}
+
+export interface CrispCarouselTarget {
+  title: string;
+  description?: string;
+  image?: string;
+  actions?: Array<{
+    label: string;
+    url: string;
+  }>;
+}
+
+export interface CrispCarouselContent {
+  text: string;
+  targets: CrispCarouselTarget[];
+}
+
+export type CrispMessageType = "text" | "file" | "animation" | "audio" | "picker" | "field" | "carousel";
+
+export type CrispMessageContent =
+  | string
+  | CrispFileContent
+  | CrispAnimationContent
+  | CrispAudioContent
+  | CrispPickerContent
+  | CrispFieldContent
+  | CrispCarouselContent;
+
 export interface CrispWebhookPayload {
   website_id: string;
   event: string;
@@ -63,8 +345,8 @@ export interface CrispWebhookPayload {
 export interface CrispWebhookData {
   website_id: string;
   session_id: string;
-  type?: "text" | "file" | "animation" | "audio" | "picker" | "field" | "carousel";
-  content?: string;
+  type?: CrispMessageType | "note";
+  content?: CrispMessageContent;
   from?: "user" | "operator";
   origin?: "chat" | "email";
   stamped?: boolean;
@@ -80,13 +362,17 @@ export interface CrispWebhookData {
   email?: string;
   // Nickname events
   nickname?: string;
+  // Routing/assignment events
+  assigned?: {
+    user_id: string;
+  } | null;
 }
 
 export interface CrispMessage {
   session_id: string;
   website_id: string;
-  type: "text" | "file" | "animation" | "audio" | "note";
-  content: string;
+  type: CrispMessageType | "note";
+  content: CrispMessageContent;
   from: "user" | "operator";
   origin: "chat" | "email";
   timestamp: number;
@@ -107,29 +393,84 @@ export interface CrispConversation {
   availability: "online" | "offline";
   created_at: number;
   updated_at: number;
+  /** People profile linked to the conversation, if any */
+  people_id?: string;
   meta: {
     nickname?: string;
     email?: string;
     phone?: string;
+    address?: string;
     avatar?: string;
     ip?: string;
+    segments?: string[];
+    /** Custom session data set with $crisp.push(["set", "session:data", ...]) */
+    data?: Record<string, string | number | boolean>;
     device?: {
       geolocation?: {
         country?: string;
+        region?: string;
         city?: string;
       };
+      system?: {
+        os?: { name?: string; version?: string };
+        browser?: { name?: string; version?: string };
+      };
+      timezone?: number;
+      /** Browser languages, most preferred first (e.g. ["fr-FR", "fr", "en"]) */
+      locales?: string[];
     };
   };
 }
 
-export interface CrispSendMessageParams {
+export interface CrispConversationPage {
+  page_title?: string;
+  page_url: string;
+  page_referrer?: string;
+  timestamp: number;
+}
+
+export interface CrispPeopleProfile {
+  people_id: string;
+  email?: string;
+  segments?: string[];
+  person?: {
+    nickname?: string;
+    website?: string;
+    timezone?: number;
+    employment?: { name?: string; title?: string; role?: string };
+  };
+  company?: {
+    name?: string;
+    url?: string;
+  };
+}
+
+export interface CrispOperatorAvailability {
+  user_id: string;
+  type: "online" | "away" | "offline";
+}
+
+/**
+ * Message type + content pairs accepted by the send message endpoint
+ */
+export type CrispOutboundContent =
+  | { type?: "text"; content: string }
+  | { type: "file"; content: CrispFileContent }
+  | { type: "animation"; content: CrispAnimationContent }
+  | { type: "audio"; content: CrispAudioContent }
+  | { type: "picker"; content: CrispPickerContent }
+  | { type: "field"; content: CrispFieldContent }
+  | { type: "carousel"; content: CrispCarouselContent }
+  | { type: "note"; content: string };
+
+export type CrispSendMessageParams = {
   websiteId: string;
   sessionId: string;
-  content: string;
-  type?: "text" | "file" | "animation";
   from?: "operator";
   origin?: "chat";
-}
+  /** Client-chosen fingerprint; lets a retried send be recognized once delivered */
+  fingerprint?: number;
+} & CrispOutboundContent;
 
 export interface CrispSendMessageResponse {
   error: boolean;
@@ -149,12 +490,20 @@ export interface CrispSessionState {
   accountId: string;
   visitorName: string;
   visitorEmail?: string;
+  /** Visitor's preferred language (from the browser, once fetched) */
+  visitorLocale?: string;
   startedAt: number;
   lastMessageAt: number;
   messageCount: number;
   isNew: boolean;
 }
 
+export interface CrispConfigIssue {
+  /** Dotted path within the account config ("" for the whole config) */
+  path: string;
+  message: string;
+}
+
 export interface ResolvedCrispAccount {
   accountId: string;
   name: string;
@@ -162,6 +511,10 @@ export interface ResolvedCrispAccount {
   configured: boolean;
   config: CrispConfig;
   baseUrl: string;
+  /** Why the config was rejected (empty when it parsed) */
+  configIssues: CrispConfigIssue[];
+  /** Where each secret comes from ("env:NAME", "file:/path" or "inline"), never the value */
+  secretSources: Partial<Record<SecretField, string>>;
 }
 
 // ============================================================================
@@ -169,19 +522,21 @@ export interface ResolvedCrispAccount {
 // ============================================================================
 
 export const CRISP_API_BASE = "https://api.crisp.chat/v1";
+export const TELEGRAM_API_BASE = "https://api.telegram.org";
 export const DEFAULT_TIMEOUT_MS = 10_000;
+export const DEFAULT_RETRY_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 10_000;
+export const DEFAULT_DRAIN_TIMEOUT_MS = 30_000;
 export const DEFAULT_WEBHOOK_PATH = "/crisp-webhook";
+export const DEFAULT_TELEGRAM_WEBHOOK_PATH = "/crisp-telegram";
 
 // ============================================================================
 // Helpers
 // ============================================================================
 
-export function buildCrispApiUrl(path: string): string {
-  return `${CRISP_API_BASE}${path}`;
-}
-
-export function buildCrispDashboardUrl(websiteId: string, sessionId: string): string {
-  return `https://app.crisp.chat/website/${websiteId}/inbox/${sessionId}`;
+export function buildCrispApiUrl(path: string, baseUrl: string = CRISP_API_BASE): string {
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
 }
 
 export function truncateText(text: string, maxLength: number): string {
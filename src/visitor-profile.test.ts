@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { createCrispClient } from "./api-client.js";
+import { buildVisitorProfile, formatVisitorPreamble, loadVisitorProfile, type VisitorSources } from "./visitor-profile.js";
+import { VisitorProfileSchema } from "./types.js";
+import { createFakeCrispServer } from "../test/fake-crisp-server.js";
+
+const sources: VisitorSources = {
+  meta: {
+    nickname: "Vera",
+    email: "vera@example.com",
+    phone: "+33 6 12 34 56 78",
+    segments: ["trial", "vip"],
+    data: { plan: "pro", seats: 12, internalScore: 87 },
+    device: {
+      geolocation: { country: "France", region: "Auvergne-Rhône-Alpes", city: "Lyon" },
+      system: { os: { name: "macOS", version: "14.5" }, browser: { name: "Firefox" } },
+      timezone: -120,
+      locales: ["fr-FR", "en"],
+    },
+  },
+  people: {
+    people_id: "people_1",
+    segments: ["vip", "customer"],
+    person: { employment: { title: "CTO" } },
+    company: { name: "Acme", url: "https://acme.example" },
+  },
+  page: { page_url: "https://shop.example/pricing", page_title: "Pricing", timestamp: 1 },
+};
+
+describe("buildVisitorProfile", () => {
+  it("shares only the country and segments by default", () => {
+    expect(buildVisitorProfile(sources, VisitorProfileSchema.parse({}))).toEqual({
+      location: { country: "France" },
+      segments: ["trial", "vip", "customer"],
+    });
+  });
+
+  it("keeps the allowed fields of each category", () => {
+    const allow = VisitorProfileSchema.parse({
+      contact: ["nickname", "email"],
+      location: ["city", "country"],
+      device: ["os", "browser", "timezone"],
+      company: ["company", "jobTitle"],
+      segments: ["vip"],
+      data: ["plan", "seats"],
+      page: ["url", "title"],
+    });
+
+    expect(buildVisitorProfile(sources, allow)).toEqual({
+      contact: { nickname: "Vera", email: "vera@example.com" },
+      location: { city: "Lyon", country: "France" },
+      device: { os: "macOS 14.5", browser: "Firefox", timezone: "UTC+02:00" },
+      company: { company: "Acme", jobTitle: "CTO" },
+      segments: ["vip"],
+      data: { plan: "pro", seats: 12 },
+      page: { url: "https://shop.example/pricing", title: "Pricing" },
+    });
+  });
+
+  it("falls back to the tracked session for contact details", () => {
+    const profile = buildVisitorProfile(
+      {
+        session: {
+          sessionId: "session_profile",
+          websiteId: "website",
+          accountId: "default",
+          visitorName: "Vera",
+          visitorEmail: "vera@example.com",
+          startedAt: 0,
+          lastMessageAt: 0,
+          messageCount: 1,
+          isNew: true,
+        },
+      },
+      VisitorProfileSchema.parse({ contact: ["nickname", "email", "phone"], segments: [] })
+    );
+
+    expect(profile).toEqual({ contact: { nickname: "Vera", email: "vera@example.com" } });
+  });
+});
+
+describe("formatVisitorPreamble", () => {
+  it("summarizes the profile on one line", () => {
+    const allow = VisitorProfileSchema.parse({ contact: ["nickname"], location: ["city", "country"], data: ["plan"], page: ["url", "title"] });
+
+    expect(formatVisitorPreamble(buildVisitorProfile(sources, allow))).toBe(
+      "[Visitor] nickname: Vera · location: Lyon, France · segments: trial, vip, customer · plan: pro · page: Pricing (https://shop.example/pricing)"
+    );
+    expect(formatVisitorPreamble({})).toBe("");
+  });
+});
+
+describe("loadVisitorProfile", () => {
+  it("fetches people and pages only when their categories are allowed", async () => {
+    const crisp = createFakeCrispServer();
+    crisp.createConversation({ sessionId: "session_load", email: "vera@example.com", meta: { segments: ["vip"] } });
+    const client = createCrispClient({ apiKeyId: "key", apiKeySecret: "secret", baseUrl: crisp.baseUrl, fetch: crisp.fetch });
+    const load = (allow: Record<string, unknown>) =>
+      loadVisitorProfile({ client, allow: VisitorProfileSchema.parse(allow), websiteId: crisp.websiteId, sessionId: "session_load" });
+
+    expect((await load({})).profile).toEqual({ segments: ["vip"] });
+    expect(crisp.requests.map((request) => request.path)).toEqual([`/website/${crisp.websiteId}/conversation/session_load`]);
+
+    // A missing people profile does not fail the profile
+    expect((await load({ company: ["company"], page: ["url"] })).profile).toEqual({ segments: ["vip"] });
+    expect(crisp.requests.map((request) => request.path)).toContainEqual(expect.stringContaining("/people/profile/vera%40example.com"));
+    expect(crisp.requests.map((request) => request.path)).toContainEqual(expect.stringMatching(/\/pages\/1$/));
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Visitor Profile
+ *
+ * Gathers what Crisp knows about a visitor (conversation meta, people
+ * profile, segments, custom session data, current page) and keeps only the
+ * fields allowed by the account's `visitorProfile` config, so operators
+ * decide which personal data reaches the model.
+ */
+
+import type {
+  CrispConversation,
+  CrispConversationPage,
+  CrispPeopleProfile,
+  CrispSessionState,
+  VisitorProfileConfig,
+} from "./types.js";
+import type { CrispApiClient } from "./api-client.js";
+
+export interface VisitorProfile {
+  contact?: { nickname?: string; email?: string; phone?: string; address?: string };
+  location?: { country?: string; region?: string; city?: string };
+  device?: { os?: string; browser?: string; timezone?: string; locales?: string[] };
+  company?: { company?: string; companyUrl?: string; jobTitle?: string; jobRole?: string };
+  segments?: string[];
+  data?: Record<string, string | number | boolean>;
+  page?: { url?: string; title?: string; referrer?: string };
+}
+
+export interface VisitorSources {
+  meta?: CrispConversation["meta"];
+  session?: CrispSessionState;
+  people?: CrispPeopleProfile;
+  page?: CrispConversationPage;
+}
+
+function pick<T extends Record<string, unknown>, K extends keyof T>(
+  values: T,
+  allowed: readonly K[]
+): Partial<Pick<T, K>> | undefined {
+  const picked: Partial<Pick<T, K>> = {};
+  for (const key of allowed) {
+    const value = values[key];
+    if (value !== undefined && value !== null && value !== "") {
+      picked[key] = value;
+    }
+  }
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+function allows(allowed: string[], name: string): boolean {
+  return allowed.includes("*") || allowed.includes(name);
+}
+
+function formatVersioned(part?: { name?: string; version?: string }): string | undefined {
+  if (!part?.name) return undefined;
+  return part.version ? `${part.name} ${part.version}` : part.name;
+}
+
+function formatUtcOffset(minutes?: number): string | undefined {
+  if (minutes === undefined) return undefined;
+  // Crisp reports the browser's getTimezoneOffset(): minutes *behind* UTC
+  const offset = -minutes;
+  const sign = offset >= 0 ? "+" : "-";
+  const abs = Math.abs(offset);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Keep only the allowed fields of the raw Crisp data
+ */
+export function buildVisitorProfile(sources: VisitorSources, allow: VisitorProfileConfig): VisitorProfile {
+  const { meta, session, people, page } = sources;
+  const profile: VisitorProfile = {};
+
+  profile.contact = pick(
+    {
+      nickname: meta?.nickname || people?.person?.nickname || session?.visitorName,
+      email: meta?.email || people?.email || session?.visitorEmail,
+      phone: meta?.phone,
+      address: meta?.address,
+    },
+    allow.contact
+  );
+
+  profile.location = pick(
+    {
+      country: meta?.device?.geolocation?.country,
+      region: meta?.device?.geolocation?.region,
+      city: meta?.device?.geolocation?.city,
+    },
+    allow.location
+  );
+
+  profile.device = pick(
+    {
+      os: formatVersioned(meta?.device?.system?.os),
+      browser: formatVersioned(meta?.device?.system?.browser),
+      timezone: formatUtcOffset(meta?.device?.timezone),
+      locales: meta?.device?.locales?.length ? meta.device.locales : undefined,
+    },
+    allow.device
+  );
+
+  profile.company = pick(
+    {
+      company: people?.company?.name ?? people?.person?.employment?.name,
+      companyUrl: people?.company?.url,
+      jobTitle: people?.person?.employment?.title,
+      jobRole: people?.person?.employment?.role,
+    },
+    allow.company
+  );
+
+  const segments = Array.from(new Set([...(meta?.segments ?? []), ...(people?.segments ?? [])]))
+    .filter((segment) => allows(allow.segments, segment));
+  profile.segments = segments.length > 0 ? segments : undefined;
+
+  const data = Object.fromEntries(
+    Object.entries(meta?.data ?? {}).filter(([key]) => allows(allow.data, key))
+  );
+  profile.data = Object.keys(data).length > 0 ? data : undefined;
+
+  profile.page = page
+    ? pick({ url: page.page_url, title: page.page_title, referrer: page.page_referrer }, allow.page)
+    : undefined;
+
+  // Drop empty categories
+  for (const key of Object.keys(profile) as Array<keyof VisitorProfile>) {
+    if (profile[key] === undefined) delete profile[key];
+  }
+  return profile;
+}
+
+/**
+ * Fetch the visitor's Crisp data and build the allowed profile.
+ * Optional sources are only fetched when their category is allowed.
+ */
+export async function loadVisitorProfile(params: {
+  client: CrispApiClient;
+  allow: VisitorProfileConfig;
+  websiteId: string;
+  sessionId: string;
+  session?: CrispSessionState;
+  /** Conversation already fetched by the caller (fetched here otherwise) */
+  conversation?: CrispConversation;
+}): Promise<{ profile: VisitorProfile; meta?: CrispConversation["meta"] }> {
+  const { client, allow, websiteId, sessionId, session } = params;
+
+  const conversation = params.conversation ?? await client.getConversation(websiteId, sessionId);
+  const meta = conversation.meta;
+
+  const peopleId = conversation.people_id ?? meta?.email ?? session?.visitorEmail;
+  const [people, pages] = await Promise.all([
+    allow.company.length > 0 && peopleId
+      ? client.getPeopleProfile(websiteId, peopleId).catch(() => undefined)
+      : undefined,
+    allow.page.length > 0
+      ? client.getConversationPages(websiteId, sessionId).catch(() => [])
+      : [],
+  ]);
+
+  const page = pages.reduce<CrispConversationPage | undefined>(
+    (latest, candidate) => (!latest || candidate.timestamp > latest.timestamp ? candidate : latest),
+    undefined
+  );
+
+  return {
+    profile: buildVisitorProfile({ meta, session, people, page }, allow),
+    meta,
+  };
+}
+
+/**
+ * One-line summary of the profile for the agent prompt
+ */
+export function formatVisitorPreamble(profile: VisitorProfile): string {
+  const parts: string[] = [];
+
+  for (const [key, value] of Object.entries({ ...profile.contact, ...profile.company })) {
+    parts.push(`${key}: ${value}`);
+  }
+
+  const place = [profile.location?.city, profile.location?.region, profile.location?.country]
+    .filter(Boolean)
+    .join(", ");
+  if (place) parts.push(`location: ${place}`);
+
+  if (profile.device) {
+    const device = [profile.device.os, profile.device.browser, profile.device.timezone, profile.device.locales?.join("/")]
+      .filter(Boolean)
+      .join(", ");
+    if (device) parts.push(`device: ${device}`);
+  }
+
+  if (profile.segments) parts.push(`segments: ${profile.segments.join(", ")}`);
+
+  for (const [key, value] of Object.entries(profile.data ?? {})) {
+    parts.push(`${key}: ${value}`);
+  }
+
+  if (profile.page?.url) {
+    parts.push(`page: ${profile.page.title ? `${profile.page.title} (${profile.page.url})` : profile.page.url}`);
+  }
+
+  return parts.length > 0 ? `[Visitor] ${parts.join(" · ")}` : "";
+}
@@ -0,0 +1,116 @@
+import { createHmac } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { safeEqual, validateWebhookSecret, validateWebhookSignature } from "./webhook-auth.js";
+
+const SECRET = "signing-secret";
+const BODY = '{"event":"message:send","data":{"content":"hi"}}';
+const NOW = 1_760_000_000_000;
+
+function sign(timestamp: string, body = BODY, secret = SECRET): string {
+  return createHmac("sha256", secret).update(`[${timestamp};${body}]`).digest("hex");
+}
+
+function request(headers: Record<string, string>): IncomingMessage {
+  return { headers } as unknown as IncomingMessage;
+}
+
+describe("validateWebhookSignature", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function at(now: number) {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  }
+
+  it("accepts a valid signature with a millisecond timestamp", () => {
+    at(NOW);
+    const timestamp = String(NOW);
+    const req = request({ "x-crisp-signature": sign(timestamp), "x-crisp-request-timestamp": timestamp });
+    expect(validateWebhookSignature(req, BODY, SECRET, 300)).toEqual({ ok: true });
+  });
+
+  it("accepts a second timestamp and an upper-case digest", () => {
+    at(NOW);
+    const timestamp = String(NOW / 1000);
+    const req = request({
+      "x-crisp-signature": sign(timestamp).toUpperCase(),
+      "x-crisp-request-timestamp": timestamp,
+    });
+    expect(validateWebhookSignature(req, BODY, SECRET, 300)).toEqual({ ok: true });
+  });
+
+  it("rejects a tampered body", () => {
+    at(NOW);
+    const timestamp = String(NOW);
+    const req = request({ "x-crisp-signature": sign(timestamp), "x-crisp-request-timestamp": timestamp });
+    expect(validateWebhookSignature(req, BODY.replace("hi", "bye"), SECRET, 300)).toEqual({
+      ok: false,
+      reason: "signature mismatch",
+    });
+  });
+
+  it("rejects a signature made with another secret", () => {
+    at(NOW);
+    const timestamp = String(NOW);
+    const req = request({
+      "x-crisp-signature": sign(timestamp, BODY, "other-secret"),
+      "x-crisp-request-timestamp": timestamp,
+    });
+    expect(validateWebhookSignature(req, BODY, SECRET, 300)).toMatchObject({ ok: false });
+  });
+
+  it("rejects timestamps outside the allowed skew, in both directions", () => {
+    const timestamp = String(NOW);
+    const req = request({ "x-crisp-signature": sign(timestamp), "x-crisp-request-timestamp": timestamp });
+
+    at(NOW + 301_000);
+    expect(validateWebhookSignature(req, BODY, SECRET, 300)).toEqual({ ok: false, reason: "stale timestamp" });
+    at(NOW - 301_000);
+    expect(validateWebhookSignature(req, BODY, SECRET, 300)).toEqual({ ok: false, reason: "stale timestamp" });
+    at(NOW + 299_000);
+    expect(validateWebhookSignature(req, BODY, SECRET, 300)).toEqual({ ok: true });
+  });
+
+  it("rejects missing headers, bad timestamps and a missing secret", () => {
+    at(NOW);
+    const timestamp = String(NOW);
+    expect(validateWebhookSignature(request({}), BODY, SECRET, 300)).toEqual({
+      ok: false,
+      reason: "missing signature headers",
+    });
+    expect(
+      validateWebhookSignature(
+        request({ "x-crisp-signature": sign("soon"), "x-crisp-request-timestamp": "soon" }),
+        BODY,
+        SECRET,
+        300
+      )
+    ).toEqual({ ok: false, reason: "invalid timestamp" });
+    expect(
+      validateWebhookSignature(
+        request({ "x-crisp-signature": sign(timestamp), "x-crisp-request-timestamp": timestamp }),
+        BODY,
+        undefined,
+        300
+      )
+    ).toEqual({ ok: false, reason: "no signing secret configured" });
+  });
+});
+
+describe("validateWebhookSecret", () => {
+  it("compares the ?secret= parameter", () => {
+    const expected = "0123456789abcdef";
+    expect(validateWebhookSecret(new URL(`http://x/crisp?secret=${expected}`), expected)).toBe(true);
+    expect(validateWebhookSecret(new URL("http://x/crisp?secret=0123456789abcdeX"), expected)).toBe(false);
+    expect(validateWebhookSecret(new URL("http://x/crisp"), expected)).toBe(false);
+    expect(validateWebhookSecret(new URL(`http://x/crisp?secret=${expected}`), undefined)).toBe(false);
+  });
+
+  it("handles values of different lengths", () => {
+    expect(safeEqual("short", "longer value")).toBe(false);
+    expect(safeEqual("same", "same")).toBe(true);
+  });
+});
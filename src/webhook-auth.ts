@@ -0,0 +1,70 @@
+/**
+ * Webhook Authentication
+ *
+ * Checks for Crisp deliveries: the `?secret=` query parameter and the HMAC
+ * signature over the raw body, both compared in constant time.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  if (left.length !== right.length) return false;
+  return timingSafeEqual(left, right);
+}
+
+/**
+ * Validate the webhook secret from URL params
+ */
+export function validateWebhookSecret(
+  url: URL,
+  expectedSecret: string | undefined
+): boolean {
+  const providedSecret = url.searchParams.get("secret");
+  if (!providedSecret || !expectedSecret) return false;
+  return safeEqual(providedSecret, expectedSecret);
+}
+
+/**
+ * Validate the Crisp HMAC signature over the raw body.
+ *
+ * Crisp signs `[{timestamp};{body}]` with HMAC-SHA256 and sends the hex digest
+ * in X-Crisp-Signature, alongside X-Crisp-Request-Timestamp.
+ */
+export function validateWebhookSignature(
+  req: IncomingMessage,
+  rawBody: string,
+  signingSecret: string | undefined,
+  maxSkewSeconds: number
+): { ok: true } | { ok: false; reason: string } {
+  const signature = req.headers["x-crisp-signature"];
+  const timestamp = req.headers["x-crisp-request-timestamp"];
+
+  if (!signingSecret) return { ok: false, reason: "no signing secret configured" };
+  if (typeof signature !== "string" || typeof timestamp !== "string") {
+    return { ok: false, reason: "missing signature headers" };
+  }
+
+  // Crisp timestamps are in milliseconds; accept seconds as well
+  const parsed = Number(timestamp);
+  if (!Number.isFinite(parsed)) return { ok: false, reason: "invalid timestamp" };
+  const timestampMs = parsed > 1e12 ? parsed : parsed * 1000;
+  if (Math.abs(Date.now() - timestampMs) > maxSkewSeconds * 1000) {
+    return { ok: false, reason: "stale timestamp" };
+  }
+
+  const expected = createHmac("sha256", signingSecret)
+    .update(`[${timestamp};${rawBody}]`)
+    .digest("hex");
+
+  if (!safeEqual(signature.trim().toLowerCase(), expected)) {
+    return { ok: false, reason: "signature mismatch" };
+  }
+
+  return { ok: true };
+}
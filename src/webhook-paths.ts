@@ -0,0 +1,30 @@
+/**
+ * Webhook Paths
+ *
+ * Where each account receives Crisp webhooks and Telegram updates, shared by
+ * the handlers and the router.
+ */
+
+import { DEFAULT_TELEGRAM_WEBHOOK_PATH, DEFAULT_WEBHOOK_PATH, type CrispConfig } from "./types.js";
+
+/**
+ * Get the configured webhook path
+ */
+export function resolveWebhookPath(config: CrispConfig): string {
+  return config.webhookPath || DEFAULT_WEBHOOK_PATH;
+}
+
+/**
+ * Get the configured Telegram webhook path
+ */
+export function resolveTelegramWebhookPath(config: CrispConfig): string {
+  return config.telegramWebhookPath || DEFAULT_TELEGRAM_WEBHOOK_PATH;
+}
+
+/**
+ * Canonical form of a webhook path (leading slash, no trailing slash)
+ */
+export function normalizeWebhookPath(path: string): string {
+  const trimmed = path.replace(/\/+$/, "");
+  return trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+}
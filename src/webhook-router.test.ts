@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { CRISP_API_BASE, CrispConfigSchema, type ResolvedCrispAccount } from "./types.js";
+import { buildWebhookRoutes, filterWebhookAccountsBySecret, selectWebhookAccount } from "./webhook-router.js";
+
+const WEBSITE_A = "11111111-1111-4111-8111-111111111111";
+const WEBSITE_B = "22222222-2222-4222-8222-222222222222";
+
+function account(accountId: string, settings: Record<string, unknown>): ResolvedCrispAccount {
+  const config = CrispConfigSchema.parse({
+    apiKeyId: "key",
+    apiKeySecret: "secret",
+    webhookSecret: `${accountId}-webhook-secret`,
+    ...settings,
+  });
+  return {
+    accountId,
+    name: accountId,
+    enabled: true,
+    configured: true,
+    config,
+    baseUrl: CRISP_API_BASE,
+    configIssues: [],
+    secretSources: {},
+  };
+}
+
+describe("buildWebhookRoutes", () => {
+  it("routes each account on its normalized path", () => {
+    const routes = buildWebhookRoutes([
+      account("a", { websiteId: WEBSITE_A, webhookPath: "/hooks/a/" }),
+      account("b", { websiteId: WEBSITE_B }),
+    ]);
+
+    expect([...routes.crisp.keys()]).toEqual(["/hooks/a", "/crisp-webhook"]);
+    expect(routes.issues).toEqual([]);
+  });
+
+  it("shares a path between different websites", () => {
+    const routes = buildWebhookRoutes([
+      account("a", { websiteId: WEBSITE_A }),
+      account("b", { websiteId: WEBSITE_B }),
+    ]);
+
+    expect(routes.crisp.get("/crisp-webhook")?.map((a) => a.accountId)).toEqual(["a", "b"]);
+    expect(routes.issues).toEqual([]);
+  });
+
+  it("keeps the first account when two receive the same website on one path", () => {
+    const routes = buildWebhookRoutes([
+      account("a", { websiteId: WEBSITE_A }),
+      account("b", { websiteId: WEBSITE_A }),
+    ]);
+
+    expect(routes.crisp.get("/crisp-webhook")?.map((a) => a.accountId)).toEqual(["a"]);
+    expect(routes.issues).toEqual([
+      expect.objectContaining({ level: "error", path: "/crisp-webhook", accountIds: ["a", "b"] }),
+    ]);
+  });
+
+  it("reports a Telegram path that is also a Crisp path", () => {
+    const routes = buildWebhookRoutes([
+      account("a", {
+        websiteId: WEBSITE_A,
+        approvalUpdates: "webhook",
+        telegramBotToken: "123:bot",
+        telegramWebhookSecret: "telegram-webhook-secret",
+        telegramWebhookPath: "/crisp-webhook",
+      }),
+    ]);
+
+    expect(routes.telegram.get("/crisp-webhook")?.accountId).toBe("a");
+    expect(routes.issues).toEqual([expect.objectContaining({ level: "error", accountIds: ["a", "a"] })]);
+  });
+
+  it("reports different Telegram bots on one path", () => {
+    const telegram = (token: string) => ({
+      approvalUpdates: "webhook",
+      telegramBotToken: token,
+      telegramWebhookSecret: "telegram-webhook-secret",
+    });
+    const routes = buildWebhookRoutes([
+      account("a", { websiteId: WEBSITE_A, ...telegram("123:first") }),
+      account("b", { websiteId: WEBSITE_B, ...telegram("456:second") }),
+    ]);
+
+    expect(routes.telegram.get("/crisp-telegram")?.accountId).toBe("a");
+    expect(routes.issues).toEqual([expect.objectContaining({ accountIds: ["a", "b"] })]);
+  });
+
+  it("serves accounts sharing a Telegram bot, chat and secret through one route", () => {
+    const telegram = {
+      approvalUpdates: "webhook",
+      approvalChatId: "4242",
+      telegramBotToken: "123:bot",
+      telegramWebhookSecret: "telegram-webhook-secret",
+    };
+    const routes = buildWebhookRoutes([
+      account("a", { websiteId: WEBSITE_A, ...telegram }),
+      account("b", { websiteId: WEBSITE_B, ...telegram }),
+    ]);
+
+    expect(routes.telegram.get("/crisp-telegram")?.accountId).toBe("a");
+    expect(routes.issues).toEqual([]);
+  });
+
+  it("reports a shared Telegram bot with a different chat or secret", () => {
+    const telegram = (approvalChatId: string, telegramWebhookSecret: string) => ({
+      approvalUpdates: "webhook",
+      approvalChatId,
+      telegramBotToken: "123:bot",
+      telegramWebhookSecret,
+    });
+    const routes = buildWebhookRoutes([
+      account("a", { websiteId: WEBSITE_A, ...telegram("4242", "telegram-webhook-secret") }),
+      account("b", { websiteId: WEBSITE_B, ...telegram("9999", "telegram-webhook-secret") }),
+      account("c", { websiteId: WEBSITE_A, webhookPath: "/hooks/c", ...telegram("4242", "another-webhook-secret") }),
+    ]);
+
+    expect(routes.issues).toEqual([
+      expect.objectContaining({ level: "error", path: "/crisp-telegram", accountIds: ["a", "b"] }),
+      expect.objectContaining({ level: "error", path: "/crisp-telegram", accountIds: ["a", "c"] }),
+    ]);
+  });
+
+  it("skips disabled and unconfigured accounts", () => {
+    const disabled = { ...account("a", { websiteId: WEBSITE_A }), enabled: false };
+    const unconfigured = { ...account("b", { websiteId: WEBSITE_B }), configured: false };
+    expect(buildWebhookRoutes([disabled, unconfigured]).crisp.size).toBe(0);
+  });
+});
+
+describe("shared path dispatch", () => {
+  const a = account("a", { websiteId: WEBSITE_A });
+  const b = account("b", { websiteId: WEBSITE_B });
+  const signed = account("signed", {
+    websiteId: WEBSITE_B,
+    webhookVerification: "signature",
+    webhookSigningSecret: "signing",
+  });
+
+  it("narrows by ?secret=, keeping signature-only accounts", () => {
+    expect(filterWebhookAccountsBySecret([a, b, signed], "b-webhook-secret")).toEqual([b, signed]);
+    expect(filterWebhookAccountsBySecret([a, b, signed], "wrong")).toEqual([signed]);
+    expect(filterWebhookAccountsBySecret([a, b], null)).toEqual([]);
+  });
+
+  it("selects the account of the delivery's website", () => {
+    expect(selectWebhookAccount([a, b], WEBSITE_B)).toBe(b);
+    expect(selectWebhookAccount([a, b], "33333333-3333-4333-8333-333333333333")).toBeNull();
+    expect(selectWebhookAccount([a, b], undefined)).toBeNull();
+  });
+});
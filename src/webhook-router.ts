@@ -0,0 +1,128 @@
+/**
+ * Webhook Routing
+ *
+ * Maps incoming webhook paths to accounts. Paths match exactly; several
+ * accounts (websites) may share one Crisp path, in which case the delivery
+ * is dispatched on its website ID. The table is built once per config, and
+ * conflicting paths are reported instead of silently shadowing each other.
+ */
+
+import type { ResolvedCrispAccount } from "./types.js";
+import { normalizeWebhookPath, resolveTelegramWebhookPath, resolveWebhookPath } from "./webhook-paths.js";
+import { safeEqual } from "./webhook-auth.js";
+
+export interface WebhookRouteIssue {
+  level: "warn" | "error";
+  path: string;
+  accountIds: string[];
+  message: string;
+}
+
+export interface WebhookRoutes {
+  /** Accounts receiving Crisp webhooks, by exact path */
+  crisp: Map<string, ResolvedCrispAccount[]>;
+  /**
+   * Account whose bot, chat and secret receive Telegram approval updates, by
+   * exact path (accounts sharing its bot on the path are served through it)
+   */
+  telegram: Map<string, ResolvedCrispAccount>;
+  issues: WebhookRouteIssue[];
+}
+
+/**
+ * Build the routing table for the running accounts (earlier accounts win conflicts)
+ */
+export function buildWebhookRoutes(accounts: ResolvedCrispAccount[]): WebhookRoutes {
+  const routes: WebhookRoutes = { crisp: new Map(), telegram: new Map(), issues: [] };
+  const active = accounts.filter((account) => account.configured && account.enabled);
+
+  for (const account of active) {
+    const path = normalizeWebhookPath(resolveWebhookPath(account.config));
+    const shared = routes.crisp.get(path) ?? [];
+
+    const duplicate = shared.find((other) => other.config.websiteId === account.config.websiteId);
+    if (duplicate) {
+      routes.issues.push({
+        level: "error",
+        path,
+        accountIds: [duplicate.accountId, account.accountId],
+        message: `Accounts "${duplicate.accountId}" and "${account.accountId}" both receive website ${account.config.websiteId} on ${path}; "${account.accountId}" is ignored`,
+      });
+      continue;
+    }
+
+    shared.push(account);
+    routes.crisp.set(path, shared);
+  }
+
+  for (const account of active) {
+    if (account.config.approvalUpdates !== "webhook") continue;
+    const path = normalizeWebhookPath(resolveTelegramWebhookPath(account.config));
+
+    const crispAccounts = routes.crisp.get(path);
+    if (crispAccounts) {
+      routes.issues.push({
+        level: "error",
+        path,
+        accountIds: [account.accountId, ...crispAccounts.map((other) => other.accountId)],
+        message: `${path} is both a Telegram and a Crisp webhook path; Crisp deliveries there will be treated as Telegram updates`,
+      });
+    }
+
+    const existing = routes.telegram.get(path);
+    if (!existing) {
+      routes.telegram.set(path, account);
+      continue;
+    }
+    if (existing.config.telegramBotToken !== account.config.telegramBotToken) {
+      routes.issues.push({
+        level: "error",
+        path,
+        accountIds: [existing.accountId, account.accountId],
+        message: `Accounts "${existing.accountId}" and "${account.accountId}" use different Telegram bots on ${path}; only "${existing.accountId}" receives updates`,
+      });
+      continue;
+    }
+    // Same bot: updates are checked against the first account's chat and secret,
+    // then each decision goes to the account that owns the pending reply
+    if (
+      existing.config.approvalChatId !== account.config.approvalChatId ||
+      existing.config.telegramWebhookSecret !== account.config.telegramWebhookSecret
+    ) {
+      routes.issues.push({
+        level: "error",
+        path,
+        accountIds: [existing.accountId, account.accountId],
+        message: `Accounts "${existing.accountId}" and "${account.accountId}" share a Telegram bot on ${path} with a different approval chat or webhook secret; approvals sent to "${account.accountId}"'s chat are refused`,
+      });
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Accounts on a shared path a delivery could authenticate against: those
+ * whose `?secret=` matches, plus signature-only accounts (checked later)
+ */
+export function filterWebhookAccountsBySecret(
+  accounts: ResolvedCrispAccount[],
+  secret: string | null
+): ResolvedCrispAccount[] {
+  return accounts.filter((account) => {
+    const { webhookVerification, webhookSecret } = account.config;
+    if (webhookVerification === "signature") return true;
+    return Boolean(secret && webhookSecret && safeEqual(secret, webhookSecret));
+  });
+}
+
+/**
+ * Pick the account of a delivery on a shared path
+ */
+export function selectWebhookAccount(
+  accounts: ResolvedCrispAccount[],
+  websiteId: string | undefined
+): ResolvedCrispAccount | null {
+  if (!websiteId) return null;
+  return accounts.find((account) => account.config.websiteId === websiteId) ?? null;
+}
@@ -0,0 +1,394 @@
+/**
+ * Fake Crisp Server
+ *
+ * Test fixture (not published with the package): an in-process stand-in
+ * for the Crisp REST API and its webhooks, so the whole webhook → agent →
+ * reply loop can run offline. Use `fetch` with a client directly, or
+ * `listen()` and point an account's `apiBaseUrl` at it:
+ *
+ *   const crisp = createFakeCrispServer({ webhookUrl: "http://127.0.0.1:18789/crisp-webhook", webhookSecret });
+ *   const apiBaseUrl = await crisp.listen();
+ *   await crisp.sendVisitorMessage("session_1", "Hello");
+ *   const reply = await crisp.waitForMessage((m) => m.from === "operator");
+ */
+
+import { createHmac, randomUUID } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import { EventEmitter } from "node:events";
+import type { AddressInfo } from "node:net";
+import type {
+  CrispConversation,
+  CrispMessage,
+  CrispMessageContent,
+  CrispOperatorAvailability,
+  CrispWebhookData,
+  CrispWebhookPayload,
+} from "../src/types.js";
+
+export interface FakeCrispServerOptions {
+  websiteId?: string;
+  website?: { name: string; domain: string };
+  /** Only accept these credentials (any Basic auth is accepted when unset) */
+  credentials?: { apiKeyId: string; apiKeySecret: string };
+  /** Where emitted webhooks are posted */
+  webhookUrl?: string;
+  /** Appended as `?secret=` to webhook deliveries */
+  webhookSecret?: string;
+  /** Signs webhook deliveries like Crisp (X-Crisp-Signature) */
+  webhookSigningSecret?: string;
+  /** Transport for webhook deliveries (defaults to the global fetch) */
+  webhookFetch?: typeof fetch;
+}
+
+export interface FakeCrispRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+export interface FakeCrispConversationInit {
+  sessionId?: string;
+  nickname?: string;
+  email?: string;
+  locales?: string[];
+  meta?: Partial<CrispConversation["meta"]>;
+}
+
+export interface FakeCrispServer {
+  readonly websiteId: string;
+  /** API base URL (a placeholder host until `listen()` is called) */
+  readonly baseUrl: string;
+  /** In-process transport for `createCrispClient({ fetch })` */
+  readonly fetch: typeof fetch;
+  /** Every API call received, oldest first */
+  readonly requests: FakeCrispRequest[];
+
+  /** Serve the API over HTTP on localhost; resolves with the base URL */
+  listen(port?: number): Promise<string>;
+  close(): Promise<void>;
+
+  createConversation(init?: FakeCrispConversationInit): CrispConversation;
+  getConversation(sessionId: string): CrispConversation | undefined;
+  getMessages(sessionId: string): CrispMessage[];
+  /** Operators listed by the availability endpoint (none by default) */
+  setOperatorAvailabilities(operators: CrispOperatorAvailability[]): void;
+
+  /** Answer the next API calls with an error status */
+  failNext(status: number, opts?: { times?: number; headers?: Record<string, string> }): void;
+
+  /** Post a webhook event for this website */
+  emitWebhook(event: string, data: Omit<CrispWebhookData, "website_id">): Promise<Response>;
+  /** Record a visitor message and deliver its `message:send` webhook */
+  sendVisitorMessage(sessionId: string, content: string, opts?: { nickname?: string }): Promise<Response>;
+
+  /** Resolve with the first message (existing or upcoming) matching the predicate */
+  waitForMessage(predicate: (message: CrispMessage) => boolean, timeoutMs?: number): Promise<CrispMessage>;
+}
+
+const PLACEHOLDER_BASE_URL = "http://crisp.fake/v1";
+const DEFAULT_WAIT_MS = 5_000;
+
+interface FakeResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+function ok(data: unknown = {}): FakeResponse {
+  return { status: 200, body: { error: false, reason: "resolved", data } };
+}
+
+function fail(status: number, reason: string, headers?: Record<string, string>): FakeResponse {
+  return { status, body: { error: true, reason }, headers };
+}
+
+/**
+ * Create a fake Crisp server
+ */
+export function createFakeCrispServer(opts: FakeCrispServerOptions = {}): FakeCrispServer {
+  const websiteId = opts.websiteId ?? randomUUID();
+  const website = opts.website ?? { name: "Fake Website", domain: "example.com" };
+  const expectedAuth = opts.credentials
+    ? `Basic ${Buffer.from(`${opts.credentials.apiKeyId}:${opts.credentials.apiKeySecret}`).toString("base64")}`
+    : null;
+
+  const conversations = new Map<string, CrispConversation>();
+  const messages = new Map<string, CrispMessage[]>();
+  const requests: FakeCrispRequest[] = [];
+  let operators: CrispOperatorAvailability[] = [];
+  const failures: Array<{ status: number; headers?: Record<string, string> }> = [];
+  const events = new EventEmitter();
+  let baseUrl = PLACEHOLDER_BASE_URL;
+  let server: Server | null = null;
+  let lastFingerprint = 0;
+
+  function nextFingerprint(): number {
+    lastFingerprint = Math.max(lastFingerprint + 1, Date.now() * 1000);
+    return lastFingerprint;
+  }
+
+  function createConversation(init: FakeCrispConversationInit = {}): CrispConversation {
+    const sessionId = init.sessionId ?? `session_${randomUUID()}`;
+    const now = Date.now();
+    const conversation: CrispConversation = {
+      session_id: sessionId,
+      website_id: websiteId,
+      state: "pending",
+      is_verified: false,
+      is_blocked: false,
+      availability: "online",
+      created_at: now,
+      updated_at: now,
+      meta: {
+        nickname: init.nickname,
+        email: init.email,
+        segments: [],
+        device: { locales: init.locales ?? ["en"] },
+        ...init.meta,
+      },
+    };
+    conversations.set(sessionId, conversation);
+    messages.set(sessionId, []);
+    return conversation;
+  }
+
+  function addMessage(message: CrispMessage): void {
+    messages.get(message.session_id)?.push(message);
+    const conversation = conversations.get(message.session_id);
+    if (conversation) conversation.updated_at = message.timestamp;
+    events.emit("message", message);
+  }
+
+  /**
+   * Route one API call (paths are relative to the base URL)
+   */
+  function handle(method: string, path: string, body: unknown, authorization: string | null): FakeResponse {
+    requests.push({ method, path, body });
+
+    const failure = failures.shift();
+    if (failure) return fail(failure.status, "injected_failure", failure.headers);
+
+    if (!authorization?.startsWith("Basic ") || (expectedAuth && authorization !== expectedAuth)) {
+      return fail(401, "invalid_session");
+    }
+
+    const [pathname] = path.split("?");
+    const match = /^\/website\/([^/]+)(?:\/(.*))?$/.exec(pathname);
+    if (!match || match[1] !== websiteId) return fail(404, "website_not_found");
+
+    const rest = match[2] ?? "";
+    if (rest === "" && method === "GET") return ok(website);
+    if (rest === "availability/operators" && method === "GET") return ok(operators);
+    if (rest.startsWith("people/profile/")) return fail(404, "people_not_found");
+
+    const conversationMatch = /^conversation\/([^/]+)(?:\/(.*))?$/.exec(rest);
+    const conversation = conversationMatch ? conversations.get(conversationMatch[1]) : undefined;
+    if (!conversationMatch || !conversation) return fail(404, "session_not_found");
+
+    const sessionId = conversation.session_id;
+    const payload = (body ?? {}) as Record<string, unknown>;
+
+    switch (`${method} ${conversationMatch[2] ?? ""}`) {
+      case "GET ":
+        return ok(conversation);
+      case "GET messages":
+        return ok(messages.get(sessionId) ?? []);
+      case "GET pages/1":
+        return ok([]);
+      case "GET meta":
+        return ok(conversation.meta);
+      case "PATCH meta":
+        conversation.meta = { ...conversation.meta, ...(payload as Partial<CrispConversation["meta"]>) };
+        return ok();
+      case "PATCH state":
+        conversation.state = payload.state as CrispConversation["state"];
+        return ok();
+      case "POST message": {
+        const fingerprint = typeof payload.fingerprint === "number" ? payload.fingerprint : nextFingerprint();
+        addMessage({
+          session_id: sessionId,
+          website_id: websiteId,
+          type: (payload.type as CrispMessage["type"]) ?? "text",
+          content: payload.content as CrispMessageContent,
+          from: (payload.from as CrispMessage["from"]) ?? "operator",
+          origin: "chat",
+          timestamp: Date.now(),
+          fingerprint,
+        });
+        return ok({ fingerprint });
+      }
+      case "PATCH routing":
+      case "POST routing":
+      case "PATCH compose":
+      case "PATCH read":
+        return ok();
+      default:
+        return fail(404, "route_not_found");
+    }
+  }
+
+  const fakeFetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const basePath = new URL(baseUrl).pathname.replace(/\/+$/, "");
+    const text = await request.text();
+
+    const result = handle(
+      request.method,
+      url.pathname.slice(basePath.length) + url.search,
+      text ? JSON.parse(text) : undefined,
+      request.headers.get("authorization")
+    );
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { "Content-Type": "application/json", ...result.headers },
+    });
+  };
+
+  async function emitWebhook(event: string, data: Omit<CrispWebhookData, "website_id">): Promise<Response> {
+    if (!opts.webhookUrl) {
+      throw new Error("Fake Crisp server has no webhookUrl");
+    }
+
+    const timestamp = Date.now();
+    const payload: CrispWebhookPayload = {
+      website_id: websiteId,
+      event,
+      data: { website_id: websiteId, ...data },
+      timestamp,
+    };
+    const rawBody = JSON.stringify(payload);
+
+    const url = new URL(opts.webhookUrl);
+    if (opts.webhookSecret) url.searchParams.set("secret", opts.webhookSecret);
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (opts.webhookSigningSecret) {
+      headers["X-Crisp-Request-Timestamp"] = String(timestamp);
+      headers["X-Crisp-Signature"] = createHmac("sha256", opts.webhookSigningSecret)
+        .update(`[${timestamp};${rawBody}]`)
+        .digest("hex");
+    }
+
+    return (opts.webhookFetch ?? fetch)(url, { method: "POST", headers, body: rawBody });
+  }
+
+  async function sendVisitorMessage(
+    sessionId: string,
+    content: string,
+    messageOpts: { nickname?: string } = {}
+  ): Promise<Response> {
+    const conversation = conversations.get(sessionId)
+      ?? createConversation({ sessionId, nickname: messageOpts.nickname });
+    const nickname = messageOpts.nickname ?? conversation.meta.nickname ?? "Visitor";
+
+    const message: CrispMessage = {
+      session_id: sessionId,
+      website_id: websiteId,
+      type: "text",
+      content,
+      from: "user",
+      origin: "chat",
+      timestamp: Date.now(),
+      fingerprint: nextFingerprint(),
+      user: { nickname, user_id: `visitor_${sessionId}` },
+    };
+    addMessage(message);
+
+    const { website_id: _websiteId, ...data } = message;
+    return emitWebhook("message:send", data);
+  }
+
+  function waitForMessage(
+    predicate: (message: CrispMessage) => boolean,
+    timeoutMs = DEFAULT_WAIT_MS
+  ): Promise<CrispMessage> {
+    for (const list of messages.values()) {
+      const existing = list.find(predicate);
+      if (existing) return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        events.off("message", onMessage);
+        reject(new Error(`No matching Crisp message within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      function onMessage(message: CrispMessage) {
+        if (!predicate(message)) return;
+        clearTimeout(timer);
+        events.off("message", onMessage);
+        resolve(message);
+      }
+      events.on("message", onMessage);
+    });
+  }
+
+  return {
+    websiteId,
+    get baseUrl() {
+      return baseUrl;
+    },
+    fetch: fakeFetch,
+    requests,
+
+    async listen(port = 0) {
+      if (server) return baseUrl;
+
+      server = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk) => chunks.push(chunk));
+        req.on("end", () => {
+          const text = Buffer.concat(chunks).toString("utf8");
+          let body: unknown;
+          try {
+            body = text ? JSON.parse(text) : undefined;
+          } catch {
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: true, reason: "invalid_data" }));
+            return;
+          }
+
+          const result = handle(
+            req.method ?? "GET",
+            (req.url ?? "/").replace(/^\/v1(?=\/)/, ""),
+            body,
+            req.headers.authorization ?? null
+          );
+          res.writeHead(result.status, { "Content-Type": "application/json", ...result.headers });
+          res.end(JSON.stringify(result.body));
+        });
+      });
+
+      await new Promise<void>((resolve) => server!.listen(port, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+      return baseUrl;
+    },
+
+    async close() {
+      if (!server) return;
+      const closing = server;
+      server = null;
+      baseUrl = PLACEHOLDER_BASE_URL;
+      await new Promise<void>((resolve, reject) => closing.close((err) => (err ? reject(err) : resolve())));
+    },
+
+    createConversation,
+    getConversation: (sessionId) => conversations.get(sessionId),
+    getMessages: (sessionId) => [...(messages.get(sessionId) ?? [])],
+    setOperatorAvailabilities: (list) => {
+      operators = [...list];
+    },
+
+    failNext(status, failOpts = {}) {
+      for (let i = 0; i < (failOpts.times ?? 1); i++) {
+        failures.push({ status, headers: failOpts.headers });
+      }
+    },
+
+    emitWebhook,
+    sendVisitorMessage,
+    waitForMessage,
+  };
+}
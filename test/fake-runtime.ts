@@ -0,0 +1,143 @@
+/**
+ * Fake Plugin Runtime
+ *
+ * Test fixture (not published with the package): a host runtime whose agent
+ * answers from a callback and which records what the plugin asked the host
+ * to do. Members the plugin does not use throw, so a test relying on one
+ * fails loudly instead of passing on a stub.
+ */
+
+import type { PluginRuntime, RuntimeLogger } from "clawdbot/plugin-sdk";
+
+export interface FakeAgentTurn {
+  /** Crisp session the turn is for */
+  sessionId: string;
+  /** Visitor text as the model sees it */
+  text: string;
+  ctx: Record<string, unknown>;
+}
+
+export interface FakeRuntimeOptions {
+  /** Agent answer for a turn (default "Echo: <text>"); undefined sends nothing */
+  agent?: (turn: FakeAgentTurn) => string | undefined | Promise<string | undefined>;
+  verbose?: boolean;
+}
+
+export interface FakeRuntime {
+  runtime: PluginRuntime;
+  /** Agent turns, oldest first */
+  turns: FakeAgentTurn[];
+  /** Notifications sent through the host's channels */
+  notifications: Array<{ channel: string; to: string; text: string }>;
+  systemEvents: Array<{ message: string; sessionKey: string; contextKey?: string }>;
+  /** Lines written through the host's child loggers */
+  logs: FakeLogLine[];
+}
+
+export interface FakeLogLine {
+  level: "debug" | "info" | "warn" | "error";
+  message: string;
+  fields?: Record<string, unknown>;
+  /** Bindings and options the child logger was created with */
+  bindings?: Record<string, unknown>;
+  childLevel?: string;
+}
+
+function notImplemented(name: string): () => never {
+  return () => {
+    throw new Error(`${name} is not implemented by the fake runtime`);
+  };
+}
+
+/**
+ * Create a fake host runtime
+ */
+export function createFakeRuntime(opts: FakeRuntimeOptions = {}): FakeRuntime {
+  const agent = opts.agent ?? ((turn) => `Echo: ${turn.text}`);
+  const turns: FakeAgentTurn[] = [];
+  const notifications: FakeRuntime["notifications"] = [];
+  const systemEvents: FakeRuntime["systemEvents"] = [];
+  const logs: FakeLogLine[] = [];
+
+  const childLogger = (bindings?: Record<string, unknown>, childOpts?: { level?: string }): RuntimeLogger => {
+    const write = (level: FakeLogLine["level"]) => (message: string, fields?: Record<string, unknown>) => {
+      logs.push({ level, message, fields, bindings, childLevel: childOpts?.level });
+    };
+    return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") };
+  };
+
+  const notify = (channel: string) => async (to: string, text: string) => {
+    notifications.push({ channel, to, text });
+    return { messageId: String(notifications.length), chatId: to };
+  };
+
+  const runtime: PluginRuntime = {
+    version: "test",
+    channel: {
+      text: {
+        chunkMarkdownText: (text) => [text],
+        resolveTextChunkLimit: () => 4000,
+        hasControlCommand: () => false,
+        resolveMarkdownTableMode: () => "off",
+        convertMarkdownTables: (text) => text,
+      },
+      reply: {
+        async dispatchReplyWithBufferedBlockDispatcher({ ctx, dispatcherOptions }) {
+          const turn = { sessionId: ctx.SenderId as string, text: ctx.RawBody as string, ctx };
+          turns.push(turn);
+          const text = await agent(turn);
+          if (text !== undefined) await dispatcherOptions.deliver({ text });
+        },
+        formatAgentEnvelope: ({ body }) => body,
+        resolveEnvelopeFormatOptions: () => ({}),
+      },
+      routing: {
+        resolveAgentRoute: ({ accountId, peer }) => ({
+          sessionKey: `crisp:${accountId}:${peer.id}`,
+          accountId,
+          agentId: "main",
+        }),
+      },
+      pairing: {
+        buildPairingReply: notImplemented("channel.pairing.buildPairingReply"),
+        readAllowFromStore: notImplemented("channel.pairing.readAllowFromStore"),
+        upsertPairingRequest: notImplemented("channel.pairing.upsertPairingRequest"),
+      },
+      media: {
+        fetchRemoteMedia: notImplemented("channel.media.fetchRemoteMedia"),
+        saveMediaBuffer: notImplemented("channel.media.saveMediaBuffer"),
+      },
+      session: {
+        resolveStorePath: notImplemented("channel.session.resolveStorePath"),
+        readSessionUpdatedAt: () => null,
+      },
+      mentions: {
+        buildMentionRegexes: () => [],
+        matchesMentionPatterns: () => false,
+      },
+      groups: {
+        resolveRequireMention: () => false,
+      },
+      telegram: { sendMessageTelegram: notify("telegram") },
+      discord: { sendMessageDiscord: notify("discord") },
+      slack: { sendMessageSlack: notify("slack") },
+      signal: { sendMessageSignal: notify("signal") },
+      imessage: { sendMessageIMessage: notify("imessage") },
+      whatsapp: { sendMessageWhatsApp: (to, text) => notify("whatsapp")(to, text) },
+    },
+    logging: {
+      shouldLogVerbose: () => opts.verbose ?? false,
+      getChildLogger: childLogger,
+    },
+    state: {
+      resolveStateDir: notImplemented("state.resolveStateDir"),
+    },
+    system: {
+      enqueueSystemEvent: (message, params) => {
+        systemEvents.push({ message, ...params });
+      },
+    },
+  };
+
+  return { runtime, turns, notifications, systemEvents, logs };
+}
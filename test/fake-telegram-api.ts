@@ -0,0 +1,180 @@
+/**
+ * Fake Telegram Bot API
+ *
+ * Test fixture (not published with the package): an in-process stand-in for
+ * the Bot API methods the approval flow uses. Pass its `fetch` (and any
+ * `apiBaseUrl`) to the Telegram helpers; it records every call, hands out
+ * message IDs and serves queued updates to `getUpdates` long polls.
+ */
+
+import type { TelegramMessage, TelegramUpdate, TelegramUser } from "../src/telegram-approval.js";
+
+export interface FakeTelegramCall {
+  method: string;
+  body: Record<string, unknown>;
+}
+
+export interface FakeTelegramApi {
+  readonly apiBaseUrl: string;
+  readonly fetch: typeof fetch;
+  /** Every Bot API call received, oldest first */
+  readonly calls: FakeTelegramCall[];
+  /** Calls of one method */
+  callsTo(method: string): FakeTelegramCall[];
+
+  /** Queue an update for `getUpdates` (the ID is assigned here) */
+  pushUpdate(update: Omit<TelegramUpdate, "update_id">): TelegramUpdate;
+  /** Build an update for an inline button press on a bot message */
+  buttonPress(data: string, message: TelegramMessage, from?: TelegramUser): Omit<TelegramUpdate, "update_id">;
+  /** Build an update for a reply to a bot message */
+  replyTo(message: TelegramMessage, text: string, from?: TelegramUser): Omit<TelegramUpdate, "update_id">;
+  /** Messages the bot sent, as Telegram would return them */
+  sentMessages(): TelegramMessage[];
+
+  /** Resolve once a call matching the predicate was received */
+  waitForCall(predicate: (call: FakeTelegramCall) => boolean, timeoutMs?: number): Promise<FakeTelegramCall>;
+}
+
+const API_BASE_URL = "http://telegram.fake";
+const DEFAULT_WAIT_MS = 5_000;
+
+export const FAKE_OPERATOR: TelegramUser = { id: 7, first_name: "Olivia", username: "olivia" };
+
+/**
+ * Create a fake Telegram Bot API
+ */
+export function createFakeTelegramApi(opts: { botToken?: string } = {}): FakeTelegramApi {
+  const calls: FakeTelegramCall[] = [];
+  const updates: TelegramUpdate[] = [];
+  const sent: TelegramMessage[] = [];
+  const waiters = new Set<() => void>();
+  let lastUpdateId = 0;
+  let lastMessageId = 100;
+  let lastCallbackId = 0;
+
+  function notify(): void {
+    for (const waiter of waiters) waiter();
+  }
+
+  function respond(result: unknown): Response {
+    return new Response(JSON.stringify({ ok: true, result }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  function refuse(status: number, description: string): Response {
+    return new Response(JSON.stringify({ ok: false, error_code: status, description }), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // Long poll: answer as soon as an update is queued, the timeout passes or the request aborts
+  function pollUpdates(offset: number, timeoutSeconds: number, signal?: AbortSignal | null): Promise<TelegramUpdate[]> {
+    const pending = () => updates.filter((update) => update.update_id >= offset);
+    if (pending().length > 0 || timeoutSeconds <= 0) return Promise.resolve(pending());
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        waiters.delete(finish);
+        signal?.removeEventListener("abort", abort);
+        resolve(pending());
+      };
+      const abort = () => {
+        clearTimeout(timer);
+        waiters.delete(finish);
+        reject(new DOMException("The operation was aborted.", "AbortError"));
+      };
+      const timer = setTimeout(finish, timeoutSeconds * 1000);
+      waiters.add(finish);
+      signal?.addEventListener("abort", abort, { once: true });
+    });
+  }
+
+  const fakeFetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const match = /\/bot([^/]+)\/(\w+)$/.exec(new URL(request.url).pathname);
+    if (!match) return refuse(404, "Not Found");
+
+    const [, token, method] = match;
+    const text = await request.text();
+    const body = (text ? JSON.parse(text) : {}) as Record<string, unknown>;
+    calls.push({ method, body });
+    notify();
+
+    if (opts.botToken && token !== opts.botToken) return refuse(401, "Unauthorized");
+
+    switch (method) {
+      case "sendMessage": {
+        const message: TelegramMessage = {
+          message_id: ++lastMessageId,
+          chat: { id: Number(body.chat_id) },
+          text: String(body.text ?? ""),
+        };
+        sent.push(message);
+        return respond(message);
+      }
+      case "editMessageText":
+        return respond(true);
+      case "answerCallbackQuery":
+        return respond(true);
+      case "getUpdates":
+        return respond(await pollUpdates(Number(body.offset ?? 0), Number(body.timeout ?? 0), init?.signal));
+      default:
+        return refuse(404, `Method ${method} not found`);
+    }
+  };
+
+  return {
+    apiBaseUrl: API_BASE_URL,
+    fetch: fakeFetch,
+    calls,
+    callsTo: (method) => calls.filter((call) => call.method === method),
+
+    pushUpdate(update) {
+      const queued = { ...update, update_id: ++lastUpdateId };
+      updates.push(queued);
+      notify();
+      return queued;
+    },
+
+    buttonPress(data, message, from = FAKE_OPERATOR) {
+      return { callback_query: { id: `callback_${++lastCallbackId}`, from, message, data } };
+    },
+
+    replyTo(message, text, from = FAKE_OPERATOR) {
+      return {
+        message: {
+          message_id: ++lastMessageId,
+          chat: message.chat,
+          from,
+          text,
+          reply_to_message: message,
+        },
+      };
+    },
+
+    sentMessages: () => [...sent],
+
+    waitForCall(predicate, timeoutMs = DEFAULT_WAIT_MS) {
+      const existing = calls.find(predicate);
+      if (existing) return Promise.resolve(existing);
+
+      return new Promise((resolve, reject) => {
+        const check = () => {
+          const call = calls.find(predicate);
+          if (!call) return;
+          clearTimeout(timer);
+          waiters.delete(check);
+          resolve(call);
+        };
+        const timer = setTimeout(() => {
+          waiters.delete(check);
+          reject(new Error(`No matching Telegram call within ${timeoutMs}ms`));
+        }, timeoutMs);
+        waiters.add(check);
+      });
+    },
+  };
+}